@@ -1,31 +1,249 @@
 #!/usr/bin/env bun
 
-import { runTrace } from "./lib/tracer";
-import { exportTrace, listSchemas } from "./lib/exporter";
-import { formatEvent } from "./lib/formatter";
-import { rm } from "fs/promises";
+import { runTrace, findProcess } from "./lib/tracer";
+import {
+  streamTrace, streamTable, exportTrace, listSchemas, checkIncludeTables, readTraceStartDate, readLaunchedProcess,
+  INCLUDE_TABLES,
+  type TraceEvent, type TableEvent, type IncludeTable,
+} from "./lib/exporter";
+import {
+  formatEvent, formatTableEvent, formatExitEvent, formatThread, parseColumns, parseTemplate, EVENT_FIELDS, type EventField,
+} from "./lib/formatter";
+import {
+  parseTraceExpression, matchesSyscall, parseStatusExpression, matchesStatus,
+  parseThreadExpression, matchesThread,
+  type SyscallFilter, type StatusFilter, type ThreadFilter,
+} from "./lib/filter";
+import { createJsonArrayWriter, formatNdjson, OUTPUT_FORMATS, type OutputFormat } from "./lib/json";
+import { createStraceFormatter } from "./lib/strace-format";
+import { computeLatencies, formatLatencyReport } from "./lib/latency";
+import { parseDuration, createTimestampFormatter, type TimestampStyle } from "./lib/time";
+import { createTimelineWriter } from "./lib/timeline";
+import { createFdTracker, formatFdReport } from "./lib/fd-tracker";
+import { buildProcessTree, formatProcessTree } from "./lib/process-tree";
+import { summarize, formatSummary, SUMMARY_SORT_KEYS, type SummarySortKey } from "./lib/summary";
+import { diffTraces, formatDiff } from "./lib/diff";
+import { mergeByTime } from "./lib/merge";
+import { findProcessFamily } from "./lib/children";
+import { createExitTracker, exitCodeOf, formatExitLine, type ProcessExit } from "./lib/exit-status";
+import { runViewer } from "./lib/tui";
+import { createHtmlReportWriter } from "./lib/html";
+import { createSqliteWriter, queryDatabase, formatQueryResult, QUERY_FORMATS, type QueryFormat } from "./lib/sqlite";
+import { rm, stat } from "fs/promises";
 
 const USAGE = `Usage: mactrace [options] [--] command [args...]
+       mactrace [options] -p <pid> | --attach <name>
+       mactrace [options] --input <file.trace|file.xml|file.ndjson>
+       mactrace diff [options] <a> <b>
+       mactrace view [options] <trace>
+       mactrace query [options] <file.db> <sql>
 
 strace for macOS - trace system calls using Instruments.
 
 Options:
   -o <file>        Write trace output to file (no colors)
+  -p <pid>         Attach to a running process instead of launching one
+  --attach <name>  Attach to the running process with this name
+  -f               Follow forks: prefix lines with [pid N] and include
+                   children of an attached process
+  -ff              With -o <file>, write each process to <file>.<pid>
+  --tree           Print the process tree with lifetimes and exit statuses
+  -y               Annotate fds with what created them (<fd:3 open@0.262>)
+  --fd-report      List fds never closed and fds used after close
+  --export-timeline <file.json>
+                   Also write a Chrome Trace Event file for Perfetto UI or
+                   chrome://tracing
+  --html <file>    Also write a self-contained HTML report with a summary,
+                   errors, a timeline and filtering
+  --sqlite <file.db>
+                   Also write the syscalls to a SQLite database for
+                   mactrace query or any SQLite client
+  --duration <t>, --time-limit <t>
+                   Stop recording after a time (e.g. 10s, 500ms, 2m);
+                   otherwise Ctrl-C stops an attached recording
+  --template <name>
+                   Record with another Instruments template
+                   (default: System Trace)
+  --instrument <name>
+                   Add an instrument to the template (repeatable)
+  -E VAR=val       Set an environment variable for the command (repeatable)
+  --cwd <dir>      Run the command in dir
+  --stdin          Forward stdin to the command, for interactive programs
+  --input <file>   Analyse an existing .trace bundle or the XML from
+                   \`xctrace export\` instead of recording (-p filters by pid)
+  --keep-trace <path>
+                   Save the recorded .trace bundle to path
   --no-color       Disable colored output
+  --format <fmt>   Output format: text (default), json or ndjson
+  --columns <list> Columns to show, in order: ${EVENT_FIELDS.join(",")}
+                   (default: ts,dur,proc,thread,call,result)
+  --format-template <template>
+                   Format each line from a template such as
+                   '{ts} [{tid}] {call} = {result}'
+  --include <list> Interleave other System Trace tables with the syscalls:
+                   ${INCLUDE_TABLES.join(", ")}
+  --strace-compat  Print lines like Linux \`strace -f -tt -T\`
+  -t, -tt, -ttt    Show wall-clock time, with fractions of a second, or as
+                   seconds since the epoch instead of time since the start
+  -r               Show the time since the previous syscall
+  --precision <n>  Digits after the decimal point of timestamps (default 3,
+                   or 6 for -tt, -ttt, -r and --strace-compat)
+  -T               With --strace-compat: time spent in each syscall
+  -e trace=<expr>  Only show matching syscalls: names, negations (!mmap) and
+                   classes (%file, %desc, %network, %process, %memory,
+                   %signal, %ipc, %mach, %lock)
+  -e status=<expr> Only show calls with these outcomes: successful, failed
+                   or errno names (ENOENT,EACCES or !EAGAIN)
+  --thread <list>  Only show these threads: tids (0x1f2a or decimal) or
+                   thread names / dispatch queue labels, comma-separated
+  --by-thread      Group the trace into one section per thread
+  -z               Only show successful calls (-e status=successful)
+  -Z               Only show failing calls (-e status=failed)
+  -c, --summary    Print a per-syscall summary instead of the trace
+  -C               Print the trace followed by the summary
+  -S <column>      Sort the summary by time, calls, errors, avg, max or name
+                   (default: time)
+  --per-process    Break the summary and latency report down by process
+  --latency        Print p50/p90/p99/max and a histogram per syscall
+                   instead of the trace (-C prints both)
+  --per-thread     Break the latency report down by thread
+  --min-duration <t>
+                   Only show syscalls that took at least this long (e.g. 1ms)
+  --tui            Browse the trace in a full-screen viewer when it ends
+                   (see mactrace view --help for keys)
   --list-schemas   List available trace schemas (for debugging)
   -h, --help       Show this help message
 
 Examples:
   mactrace ls -la
   mactrace -o trace.log -- node app.js
+  mactrace -c -S calls -- bun run build
+  mactrace -e trace=%file,!stat64 -- ./my-program
+  mactrace -Z -e trace=%file -- ./my-program
   mactrace -- ./my-program --flag value
+  mactrace -p 1234 --duration 30s
+  mactrace -ff -o trace -- bun run build
+  mactrace --format ndjson -o trace.ndjson -- ls
+  mactrace --keep-trace run.trace -- ./my-program
+  mactrace --input run.trace -c
+  mactrace -tt --precision 3 -- ./my-program
+  mactrace --columns ts,dur,pid,tid,call,result -- ./my-program
+  mactrace --format-template '{ts} [{tid}] {call} = {result}' -- ./my-program
+  mactrace --by-thread --thread "Main Thread",0x1f2b -- ./my-program
+  mactrace --include vm-faults,thread-state -e trace=read -- ./my-program
+  mactrace diff before.trace after.trace
+  mactrace view saved.trace
+  mactrace --sqlite run.db -- ./my-program
+  mactrace query run.db "SELECT syscall, count(*) FROM trace GROUP BY 1"
+`;
+
+const DIFF_USAGE = `Usage: mactrace diff [options] <a> <b>
+
+Compare per-syscall counts, time and errors between two runs. Each run is a
+.trace bundle, exported XML or events saved with --format json/ndjson.
+
+Options:
+  -o <file>          Write the comparison to file (no colors)
+  --format <fmt>     text (default) or json
+  --threshold <pct>  Change in calls or time that counts as significant
+                     (default: 10)
+  --all              Also list syscalls that did not change significantly
+  -e trace=<expr>    Only compare matching syscalls
+  -e status=<expr>   Only compare calls with these outcomes, e.g. failed
+  --no-color         Disable colored output
+  -h, --help         Show this help message
+`;
+
+const VIEW_USAGE = `Usage: mactrace view [options] <trace>
+
+Browse a .trace bundle, exported XML or events saved with --format json/ndjson
+in a full-screen terminal viewer.
+
+Options:
+  -p <pid>         Only show this process
+  -f               With -p, also show the children it forks or spawns
+  --filter <expr>  Start with a filter, e.g. "open,read errno=ENOENT"
+  -h, --help       Show this help message
+
+Keys:
+  j/k, arrows      Move
+  space/b          Page down/up
+  g/G              First/last event
+  /                Search as you type; n/N next/previous match
+  f                Filter as you type: syscall names or %class, pid=,
+                   tid= and errno= (e.g. "%file errno=failed")
+  e/E              Next/previous error
+  enter            Show every field of the selected event
+  q                Quit
+`;
+
+const QUERY_USAGE = `Usage: mactrace query [options] <file.db> <sql>
+
+Run SQL against a database written by --sqlite. Tables:
+
+  events     start_ns, duration_ns, end_ns, pid, tid, syscall_id, args,
+             raw_args, result, raw_result, errno, signature
+  processes  pid, name, first_ns, last_ns
+  threads    tid, pid, name
+  syscalls   id, name, classes
+  errors     errno, name, message
+  trace      View joining them: every events column with process, thread,
+             syscall, classes, errno_name and errno_message
+
+Times are nanoseconds since the trace started.
+
+Options:
+  --format <fmt>   text (default), json, ndjson or csv
+  -h, --help       Show this help message
+
+Example:
+  mactrace query run.db "SELECT thread, sum(duration_ns) / 1e6 AS ms FROM trace
+    WHERE syscall = 'kevent' AND start_ns BETWEEN 2e9 AND 5e9
+    GROUP BY tid ORDER BY ms DESC"
 `;
 
 interface Options {
   command: string[];
   color: boolean;
+  format: OutputFormat;
+  straceCompat: boolean;
+  columns?: EventField[];
+  template?: string;
+  timestamps?: TimestampStyle;
+  precision?: number;
+  syscallTimes?: boolean;
   outputFile?: string;
+  attachPid?: number;
+  attachName?: string;
+  followForks: boolean;
+  splitByPid: boolean;
+  tree: boolean;
+  fdLabels: boolean;
+  fdReport: boolean;
+  timelineFile?: string;
+  htmlFile?: string;
+  sqliteFile?: string;
+  duration?: string;
+  recordTemplate?: string;
+  instruments: string[];
+  env: Record<string, string>;
+  cwd?: string;
+  stdin: boolean;
+  input?: string;
+  keepTrace?: string;
+  filter?: SyscallFilter;
+  status?: StatusFilter;
+  threads?: ThreadFilter;
+  byThread: boolean;
+  include?: IncludeTable[];
+  summary?: "only" | "both";
+  sortBy: SummarySortKey;
+  perProcess: boolean;
+  latency: boolean;
+  perThread: boolean;
+  minDurationNs?: number;
   listSchemas: boolean;
+  tui: boolean;
   help: boolean;
 }
 
@@ -35,7 +253,23 @@ function parseArgs(): Options {
   const options: Options = {
     command: [],
     color: true,
+    format: "text",
+    straceCompat: false,
+    followForks: false,
+    splitByPid: false,
+    tree: false,
+    fdLabels: false,
+    fdReport: false,
+    sortBy: "time",
+    perProcess: false,
+    latency: false,
+    perThread: false,
+    byThread: false,
+    instruments: [],
+    env: {},
+    stdin: false,
     listSchemas: false,
+    tui: false,
     help: false,
   };
 
@@ -59,9 +293,214 @@ function parseArgs(): Options {
       options.outputFile = args[i + 1];
       options.color = false; // No colors when writing to file
       i += 2;
+    } else if (arg === "-p") {
+      const pid = Number(args[i + 1]);
+      if (!Number.isInteger(pid) || pid <= 0) {
+        process.stderr.write("Error: -p requires a process id\n");
+        process.exit(1);
+      }
+      options.attachPid = pid;
+      i += 2;
+    } else if (arg === "--attach") {
+      if (i + 1 >= args.length) {
+        process.stderr.write("Error: --attach requires a process name\n");
+        process.exit(1);
+      }
+      options.attachName = args[i + 1];
+      i += 2;
+    } else if (arg === "-f") {
+      options.followForks = true;
+      i++;
+    } else if (arg === "-ff") {
+      options.followForks = true;
+      options.splitByPid = true;
+      i++;
+    } else if (arg === "--tree") {
+      options.tree = true;
+      i++;
+    } else if (arg === "--html") {
+      if (i + 1 >= args.length) {
+        process.stderr.write("Error: --html requires a filename\n");
+        process.exit(1);
+      }
+      options.htmlFile = args[i + 1];
+      i += 2;
+    } else if (arg === "--sqlite") {
+      if (i + 1 >= args.length) {
+        process.stderr.write("Error: --sqlite requires a filename\n");
+        process.exit(1);
+      }
+      options.sqliteFile = args[i + 1];
+      i += 2;
+    } else if (arg === "--export-timeline") {
+      if (i + 1 >= args.length) {
+        process.stderr.write("Error: --export-timeline requires a filename\n");
+        process.exit(1);
+      }
+      options.timelineFile = args[i + 1];
+      i += 2;
+    } else if (arg === "-y") {
+      options.fdLabels = true;
+      i++;
+    } else if (arg === "--fd-report") {
+      options.fdReport = true;
+      i++;
+    } else if (arg === "--duration" || arg === "--time-limit") {
+      options.duration = parseDurationArg(arg, args[i + 1]);
+      i += 2;
+    } else if (arg === "--template" || arg === "--instrument" || arg === "--cwd") {
+      const value = args[i + 1];
+      if (!value) {
+        process.stderr.write(`Error: ${arg} requires a ${arg === "--cwd" ? "directory" : "name"}\n`);
+        process.exit(1);
+      }
+      if (arg === "--template") options.recordTemplate = value;
+      else if (arg === "--instrument") options.instruments.push(value);
+      else options.cwd = value;
+      i += 2;
+    } else if (arg === "-E") {
+      // strace's -E VAR=val. Its bare -E VAR (unset) has no equivalent:
+      // xctrace's --env can only set variables for the command.
+      const match = args[i + 1]?.match(/^([A-Za-z_][A-Za-z0-9_]*)(=(.*))?$/s);
+      if (!match) {
+        process.stderr.write("Error: -E requires VAR=value\n");
+        process.exit(1);
+      }
+      if (match[2] === undefined) {
+        process.stderr.write(`Error: -E ${match[1]} without a value is not supported; xctrace can only set ` +
+          `variables for the command (-E ${match[1]}= sets it to an empty string)\n`);
+        process.exit(1);
+      }
+      options.env[match[1]!] = match[3]!;
+      i += 2;
+    } else if (arg === "--stdin") {
+      options.stdin = true;
+      i++;
+    } else if (arg === "--input") {
+      if (i + 1 >= args.length) {
+        process.stderr.write("Error: --input requires a .trace or .xml file\n");
+        process.exit(1);
+      }
+      options.input = args[i + 1];
+      i += 2;
+    } else if (arg === "--keep-trace") {
+      if (i + 1 >= args.length) {
+        process.stderr.write("Error: --keep-trace requires a path\n");
+        process.exit(1);
+      }
+      options.keepTrace = args[i + 1];
+      i += 2;
+    } else if (arg === "-e") {
+      const expr = args[i + 1];
+      if (!expr) {
+        process.stderr.write("Error: -e requires an expression\n");
+        process.exit(1);
+      }
+      parseFilterArg(options, expr);
+      i += 2;
+    } else if (arg === "--thread") {
+      if (i + 1 >= args.length) {
+        process.stderr.write("Error: --thread requires a tid or thread name\n");
+        process.exit(1);
+      }
+      options.threads = parseThreadExpression(args[i + 1]!);
+      i += 2;
+    } else if (arg === "--include") {
+      const tables = (args[i + 1] ?? "").split(",").map((s) => s.trim()).filter(Boolean);
+      const unknown = tables.find((table) => !INCLUDE_TABLES.includes(table as IncludeTable));
+      if (tables.length === 0 || unknown !== undefined) {
+        process.stderr.write(`Error: --include requires a list of: ${INCLUDE_TABLES.join(", ")}\n`);
+        process.exit(1);
+      }
+      options.include = tables as IncludeTable[];
+      i += 2;
+    } else if (arg === "--by-thread") {
+      options.byThread = true;
+      i++;
+    } else if (arg === "-z") {
+      options.status = parseStatusExpression("successful");
+      i++;
+    } else if (arg === "-Z") {
+      options.status = parseStatusExpression("failed");
+      i++;
+    } else if (arg === "-c" || arg === "--summary") {
+      options.summary = "only";
+      i++;
+    } else if (arg === "-C") {
+      options.summary = "both";
+      i++;
+    } else if (arg === "-S") {
+      const sortBy = args[i + 1];
+      if (!SUMMARY_SORT_KEYS.includes(sortBy as SummarySortKey)) {
+        process.stderr.write(`Error: -S requires one of: ${SUMMARY_SORT_KEYS.join(", ")}\n`);
+        process.exit(1);
+      }
+      options.sortBy = sortBy as SummarySortKey;
+      i += 2;
+    } else if (arg === "--per-process") {
+      options.perProcess = true;
+      i++;
+    } else if (arg === "--latency") {
+      options.latency = true;
+      i++;
+    } else if (arg === "--per-thread") {
+      options.perThread = true;
+      i++;
+    } else if (arg === "--min-duration") {
+      const ns = parseDuration(args[i + 1]);
+      if (ns === undefined) {
+        process.stderr.write("Error: --min-duration requires a time such as 1ms, 250us or 2s\n");
+        process.exit(1);
+      }
+      options.minDurationNs = ns;
+      i += 2;
+    } else if (arg === "--format") {
+      const format = args[i + 1];
+      if (!OUTPUT_FORMATS.includes(format as OutputFormat)) {
+        process.stderr.write(`Error: --format requires one of: ${OUTPUT_FORMATS.join(", ")}\n`);
+        process.exit(1);
+      }
+      options.format = format as OutputFormat;
+      i += 2;
+    } else if (arg === "--columns" || arg === "--format-template") {
+      if (i + 1 >= args.length) {
+        process.stderr.write(`Error: ${arg} requires a value\n`);
+        process.exit(1);
+      }
+      try {
+        if (arg === "--columns") {
+          options.columns = parseColumns(args[i + 1]!);
+        } else {
+          options.template = parseTemplate(args[i + 1]!);
+        }
+      } catch (error) {
+        process.stderr.write(`Error: ${(error as Error).message}\n`);
+        process.exit(1);
+      }
+      i += 2;
+    } else if (arg === "--strace-compat") {
+      options.straceCompat = true;
+      i++;
+    } else if (arg === "-t" || arg === "-tt" || arg === "-ttt" || arg === "-r") {
+      options.timestamps = arg.slice(1) as TimestampStyle;
+      i++;
+    } else if (arg === "--precision") {
+      const digits = Number(args[i + 1]);
+      if (!Number.isInteger(digits) || digits < 0 || digits > 9) {
+        process.stderr.write("Error: --precision requires a number of digits from 0 to 9\n");
+        process.exit(1);
+      }
+      options.precision = digits;
+      i += 2;
+    } else if (arg === "-T") {
+      options.syscallTimes = true;
+      i++;
     } else if (arg === "--no-color") {
       options.color = false;
       i++;
+    } else if (arg === "--tui") {
+      options.tui = true;
+      i++;
     } else if (arg === "--list-schemas") {
       options.listSchemas = true;
       i++;
@@ -77,6 +516,62 @@ function parseArgs(): Options {
   return options;
 }
 
+// Normalize a duration to xctrace's --time-limit syntax (bare numbers are seconds)
+function parseDurationArg(flag: string, value: string | undefined): string {
+  const match = value?.match(/^(\d+)(ms|s|m|h)?$/);
+  if (!match) {
+    process.stderr.write(`Error: ${flag} requires a time such as 10s, 500ms or 2m\n`);
+    process.exit(1);
+  }
+  return `${match[1]}${match[2] ?? "s"}`;
+}
+
+function parseFilterArg(options: Pick<Options, "filter" | "status">, expr: string): void {
+  // "-e open" is shorthand for "-e trace=open"
+  const [qualifier, value] = expr.includes("=") ? expr.split("=", 2) : ["trace", expr];
+  if (qualifier !== "trace" && qualifier !== "status") {
+    process.stderr.write(`Error: unsupported -e qualifier: ${qualifier}\n`);
+    process.exit(1);
+  }
+
+  try {
+    if (qualifier === "status") {
+      options.status = parseStatusExpression(value ?? "");
+    } else {
+      options.filter = parseTraceExpression(value ?? "");
+    }
+  } catch (error) {
+    process.stderr.write(`Error: ${(error as Error).message}\n`);
+    process.exit(1);
+  }
+}
+
+interface Output {
+  write: (s: string) => void;
+  close?: () => void;
+}
+
+// Write to a file, or to stderr like strace when no path is given
+function openOutput(path: string | undefined): Output {
+  if (!path) {
+    return { write: (s: string) => process.stderr.write(s) };
+  }
+  const writer = Bun.file(path).writer();
+  return {
+    write: (s: string) => writer.write(s),
+    close: () => writer.end(),
+  };
+}
+
+async function pathExists(path: string): Promise<boolean> {
+  try {
+    await stat(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 async function cleanupTraceFile(traceFile: string): Promise<void> {
   try {
     await rm(traceFile, { recursive: true, force: true });
@@ -85,7 +580,257 @@ async function cleanupTraceFile(traceFile: string): Promise<void> {
   }
 }
 
+interface DiffArgs {
+  files: string[];
+  outputFile?: string;
+  json: boolean;
+  threshold: number;
+  all: boolean;
+  color: boolean;
+  filter?: SyscallFilter;
+  status?: StatusFilter;
+}
+
+function parseDiffArgs(args: string[]): DiffArgs {
+  const options: DiffArgs = {
+    files: [],
+    json: false,
+    threshold: 0.1,
+    all: false,
+    color: !!process.stdout.isTTY,
+  };
+
+  let i = 0;
+  while (i < args.length) {
+    const arg = args[i]!;
+
+    if (arg === "-h" || arg === "--help") {
+      process.stdout.write(DIFF_USAGE);
+      process.exit(0);
+    } else if (arg === "-o") {
+      if (i + 1 >= args.length) {
+        process.stderr.write("Error: -o requires a filename\n");
+        process.exit(1);
+      }
+      options.outputFile = args[i + 1];
+      options.color = false;
+      i += 2;
+    } else if (arg === "--format") {
+      const format = args[i + 1];
+      if (format !== "text" && format !== "json") {
+        process.stderr.write("Error: diff --format requires text or json\n");
+        process.exit(1);
+      }
+      options.json = format === "json";
+      i += 2;
+    } else if (arg === "--threshold") {
+      const pct = Number(args[i + 1]);
+      if (!(pct >= 0)) {
+        process.stderr.write("Error: --threshold requires a percentage such as 10\n");
+        process.exit(1);
+      }
+      options.threshold = pct / 100;
+      i += 2;
+    } else if (arg === "--all") {
+      options.all = true;
+      i++;
+    } else if (arg === "-e") {
+      const expr = args[i + 1];
+      if (!expr) {
+        process.stderr.write("Error: -e requires an expression\n");
+        process.exit(1);
+      }
+      parseFilterArg(options, expr);
+      i += 2;
+    } else if (arg === "--no-color") {
+      options.color = false;
+      i++;
+    } else if (arg.startsWith("-")) {
+      process.stderr.write(`Error: Unknown diff option: ${arg}\n`);
+      process.exit(1);
+    } else {
+      options.files.push(arg);
+      i++;
+    }
+  }
+
+  if (options.files.length !== 2) {
+    process.stderr.write("Error: diff requires two traces\n\n");
+    process.stderr.write(DIFF_USAGE);
+    process.exit(1);
+  }
+
+  return options;
+}
+
+async function runDiff(args: string[]): Promise<void> {
+  const options = parseDiffArgs(args);
+
+  try {
+    // One export at a time: each runs xctrace over a whole trace
+    const runs: TraceEvent[][] = [];
+    for (const file of options.files) {
+      const events = await exportTrace(file);
+      const { filter, status } = options;
+      runs.push(events.filter((event) =>
+        (!filter || matchesSyscall(filter, event.syscall)) && (!status || matchesStatus(status, event))
+      ));
+    }
+
+    const diff = diffTraces(runs[0]!, runs[1]!, { threshold: options.threshold });
+    const text = options.json
+      ? JSON.stringify(diff, null, 2) + "\n"
+      : formatDiff(diff, { all: options.all, color: options.color });
+
+    if (options.outputFile) {
+      await Bun.write(options.outputFile, text);
+    } else {
+      process.stdout.write(text);
+    }
+  } catch (error) {
+    process.stderr.write(`Error: ${error instanceof Error ? error.message : error}\n`);
+    process.exit(1);
+  }
+}
+
+interface ViewArgs {
+  file: string;
+  pid?: number;
+  followChildren: boolean;
+  filter?: string;
+}
+
+function parseViewArgs(args: string[]): ViewArgs {
+  const files: string[] = [];
+  const options: Omit<ViewArgs, "file"> = { followChildren: false };
+
+  let i = 0;
+  while (i < args.length) {
+    const arg = args[i]!;
+
+    if (arg === "-h" || arg === "--help") {
+      process.stdout.write(VIEW_USAGE);
+      process.exit(0);
+    } else if (arg === "-p") {
+      const pid = Number(args[i + 1]);
+      if (!Number.isInteger(pid) || pid <= 0) {
+        process.stderr.write("Error: -p requires a process id\n");
+        process.exit(1);
+      }
+      options.pid = pid;
+      i += 2;
+    } else if (arg === "-f") {
+      options.followChildren = true;
+      i++;
+    } else if (arg === "--filter") {
+      if (i + 1 >= args.length) {
+        process.stderr.write("Error: --filter requires an expression\n");
+        process.exit(1);
+      }
+      options.filter = args[i + 1];
+      i += 2;
+    } else if (arg.startsWith("-")) {
+      process.stderr.write(`Error: Unknown view option: ${arg}\n`);
+      process.exit(1);
+    } else {
+      files.push(arg);
+      i++;
+    }
+  }
+
+  if (files.length !== 1) {
+    process.stderr.write("Error: view requires one trace\n\n");
+    process.stderr.write(VIEW_USAGE);
+    process.exit(1);
+  }
+
+  return { file: files[0]!, ...options };
+}
+
+async function runView(args: string[]): Promise<void> {
+  const options = parseViewArgs(args);
+
+  try {
+    const events = await exportTrace(options.file, {
+      pid: options.pid,
+      followChildren: options.followChildren,
+    });
+    await runViewer(events, { title: options.file, filter: options.filter });
+  } catch (error) {
+    process.stderr.write(`Error: ${error instanceof Error ? error.message : error}\n`);
+    process.exit(1);
+  }
+}
+
+interface QueryArgs {
+  file: string;
+  sql: string;
+  format: QueryFormat;
+}
+
+function parseQueryArgs(args: string[]): QueryArgs {
+  const positional: string[] = [];
+  let format: QueryFormat = "text";
+
+  let i = 0;
+  while (i < args.length) {
+    const arg = args[i]!;
+
+    if (arg === "-h" || arg === "--help") {
+      process.stdout.write(QUERY_USAGE);
+      process.exit(0);
+    } else if (arg === "--format") {
+      const value = args[i + 1] as QueryFormat;
+      if (!QUERY_FORMATS.includes(value)) {
+        process.stderr.write(`Error: query --format requires one of: ${QUERY_FORMATS.join(", ")}\n`);
+        process.exit(1);
+      }
+      format = value;
+      i += 2;
+    } else if (arg.startsWith("-")) {
+      process.stderr.write(`Error: Unknown query option: ${arg}\n`);
+      process.exit(1);
+    } else {
+      positional.push(arg);
+      i++;
+    }
+  }
+
+  if (positional.length !== 2) {
+    process.stderr.write("Error: query requires a database and a SQL statement\n\n");
+    process.stderr.write(QUERY_USAGE);
+    process.exit(1);
+  }
+
+  return { file: positional[0]!, sql: positional[1]!, format };
+}
+
+async function runQuery(args: string[]): Promise<void> {
+  const options = parseQueryArgs(args);
+
+  try {
+    if (!(await pathExists(options.file))) {
+      throw new Error(`${options.file} does not exist`);
+    }
+    process.stdout.write(formatQueryResult(queryDatabase(options.file, options.sql), options.format));
+  } catch (error) {
+    process.stderr.write(`Error: ${error instanceof Error ? error.message : error}\n`);
+    process.exit(1);
+  }
+}
+
 async function main(): Promise<void> {
+  // Subcommands; use "mactrace -- diff" to trace a program called diff
+  if (Bun.argv[2] === "diff") {
+    return runDiff(Bun.argv.slice(3));
+  }
+  if (Bun.argv[2] === "view") {
+    return runView(Bun.argv.slice(3));
+  }
+  if (Bun.argv[2] === "query") {
+    return runQuery(Bun.argv.slice(3));
+  }
+
   const options = parseArgs();
 
   if (options.help) {
@@ -93,20 +838,116 @@ async function main(): Promise<void> {
     process.exit(0);
   }
 
-  if (options.command.length === 0) {
+  const attaching = options.attachPid !== undefined || options.attachName !== undefined;
+
+  if (options.input !== undefined) {
+    const recording = options.recordTemplate !== undefined || options.instruments.length > 0 ||
+      Object.keys(options.env).length > 0 || options.cwd !== undefined || options.stdin;
+    if (options.command.length > 0 || options.attachName !== undefined || options.keepTrace || recording) {
+      process.stderr.write("Error: --input cannot be combined with a command, --attach, --keep-trace or recording options\n");
+      process.exit(1);
+    }
+  } else if (attaching && options.command.length > 0) {
+    process.stderr.write("Error: cannot both attach to a process and launch a command\n");
+    process.exit(1);
+  } else if (attaching && (Object.keys(options.env).length > 0 || options.cwd || options.stdin)) {
+    process.stderr.write("Error: -E, --cwd and --stdin only apply to a launched command\n");
+    process.exit(1);
+  } else if (!attaching && options.command.length === 0) {
     process.stderr.write("Error: No command specified\n\n");
     process.stderr.write(USAGE);
     process.exit(1);
   }
 
+  const customLayout = options.columns !== undefined || options.template !== undefined;
+  if (customLayout && (options.format !== "text" || options.straceCompat)) {
+    process.stderr.write("Error: --columns and --format-template require text output\n");
+    process.exit(1);
+  }
+
+  if (options.tui && (options.format !== "text" || options.byThread)) {
+    process.stderr.write("Error: --tui cannot be combined with --format or --by-thread\n");
+    process.exit(1);
+  }
+
+  if (options.tui && (!process.stdin.isTTY || !process.stdout.isTTY)) {
+    process.stderr.write("Error: --tui needs a terminal\n");
+    process.exit(1);
+  }
+
+  if (options.byThread && options.format !== "text") {
+    process.stderr.write("Error: --by-thread requires text output\n");
+    process.exit(1);
+  }
+
+  // The reports are text, which would break a JSON or NDJSON stream
+  if ((options.summary || options.tree || options.latency || options.fdReport) && options.format !== "text") {
+    process.stderr.write("Error: -c, -C, --tree, --latency and --fd-report require text output\n");
+    process.exit(1);
+  }
+
+  if (options.include && options.format !== "text") {
+    process.stderr.write("Error: --include requires text output\n");
+    process.exit(1);
+  }
+
+  if (options.splitByPid && !options.outputFile) {
+    process.stderr.write("Error: -ff requires -o <file>\n");
+    process.exit(1);
+  }
+
+  // Recorded bundle to delete when done (never the user's --input)
   let traceFile: string | undefined;
+  // Removed again if the run fails before it is finished
+  let sqlite: ReturnType<typeof createSqliteWriter> | undefined;
 
   try {
-    const result = await runTrace(options.command);
-    traceFile = result.traceFile;
+    let attachPid = options.attachPid;
+    let input = options.input;
+    // xctrace's exit code when it failed but still saved a trace
+    let recordingStatus = 0;
+
+    if (input === undefined) {
+      if (options.keepTrace && await pathExists(options.keepTrace)) {
+        throw new Error(`${options.keepTrace} already exists`);
+      }
+
+      if (options.attachName !== undefined) {
+        attachPid = await findProcess(options.attachName);
+      }
+      if (attachPid !== undefined) {
+        const stop = options.duration ? `for ${options.duration}` : "until Ctrl-C";
+        process.stderr.write(`Attaching to pid ${attachPid}, recording ${stop}\n`);
+      }
+
+      const result = await runTrace(options.command, {
+        attachPid,
+        duration: options.duration,
+        output: options.keepTrace,
+        template: options.recordTemplate,
+        instruments: options.instruments,
+        env: options.env,
+        cwd: options.cwd,
+        stdin: options.stdin,
+      });
+      input = result.traceFile;
+
+      if (result.exitCode !== 0) {
+        if (!await pathExists(result.traceFile)) {
+          throw new Error(`Recording failed (xctrace exited with ${result.exitCode})`);
+        }
+        recordingStatus = result.exitCode;
+      }
+
+      if (options.keepTrace) {
+        process.stderr.write(`Trace saved to ${result.traceFile}\n`);
+      } else {
+        traceFile = result.traceFile;
+      }
+    }
 
     if (options.listSchemas) {
-      const schemas = await listSchemas(traceFile);
+      const schemas = await listSchemas(input);
       process.stderr.write("Available schemas:\n");
       for (const schema of schemas) {
         process.stderr.write(`  - ${schema}\n`);
@@ -114,27 +955,314 @@ async function main(): Promise<void> {
       return;
     }
 
-    const events = await exportTrace(traceFile);
+    // The traced processes: the -p pid or, for --include, the launched
+    // command, and with -f their children. Found before the merge, since
+    // table rows can come before a process's first syscall.
+    const launched = attachPid === undefined ? await readLaunchedProcess(input) : undefined;
+    const rootPid = attachPid ?? (options.include ? launched?.pid : undefined);
+    let tracedPids: Set<number> | undefined;
+    if (rootPid !== undefined) {
+      tracedPids = options.followForks ? await findProcessFamily(streamTrace(input), rootPid) : new Set([rootPid]);
+    }
 
-    // Determine output destination
-    let output: { write: (s: string) => void; close?: () => void };
-    if (options.outputFile) {
-      const file = Bun.file(options.outputFile);
-      const writer = file.writer();
-      output = {
-        write: (s: string) => writer.write(s),
-        close: () => writer.end(),
-      };
-    } else {
-      output = { write: (s: string) => process.stderr.write(s) };
+    // Only an attached recording's syscalls are limited to the traced processes
+    const syscalls = streamTrace(input, { pids: attachPid !== undefined ? tracedPids : undefined });
+
+    // --include merges other tables into the syscall stream by start time
+    let events: AsyncIterable<TraceEvent | TableEvent> = syscalls;
+    if (options.include) {
+      await checkIncludeTables(input, options.include);
+      const tables = options.include.map((table) => streamTable(input, table));
+      events = mergeByTime<TraceEvent | TableEvent>([syscalls, ...tables]);
+    }
+
+    // Determine output destination (-ff writes the trace to per-pid files)
+    const output = openOutput(options.splitByPid ? undefined : options.outputFile);
+    const pidOutputs = new Map<number, Output>();
+    function outputFor(event: TraceEvent | TableEvent): Output {
+      if (!options.splitByPid) return output;
+      const pid = event.pid ?? 0;
+      let out = pidOutputs.get(pid);
+      if (!out) {
+        out = openOutput(`${options.outputFile}.${pid}`);
+        pidOutputs.set(pid, out);
+      }
+      return out;
+    }
+
+    // --tree, --latency and -c replace the trace unless -C asks for both;
+    // --tui shows it in the viewer instead
+    const showTrace = !options.tui && (options.summary === "both" ||
+      (!options.summary && !options.tree && !options.latency));
+    const jsonWriters = new Map<Output, ReturnType<typeof createJsonArrayWriter>>();
+    if (showTrace && options.format === "json" && !options.splitByPid) {
+      jsonWriters.set(output, createJsonArrayWriter(output.write));
+    }
+
+    const fds = options.fdLabels || options.fdReport ? createFdTracker() : undefined;
+
+    // --strace-compat defaults to -tt -T unless timestamp switches were given
+    const explicitTimes = options.timestamps !== undefined || options.syscallTimes !== undefined;
+    const absoluteTimes = options.timestamps === "t" || options.timestamps === "tt" || options.timestamps === "ttt";
+    const needsStartDate = absoluteTimes || (options.straceCompat && !explicitTimes);
+    const startDate = needsStartDate ? await readTraceStartDate(input).catch(() => undefined) : undefined;
+    const straceFormatters = new Map<Output, (event: TraceEvent | TableEvent) => string>();
+    function straceFormatterFor(out: Output): (event: TraceEvent | TableEvent) => string {
+      let format = straceFormatters.get(out);
+      if (!format) {
+        format = createStraceFormatter({
+          timestamps: explicitTimes ? options.timestamps : "tt",
+          precision: options.precision,
+          syscallTimes: explicitTimes ? options.syscallTimes : true,
+          pidPrefix: !options.splitByPid,
+          startDate,
+          fdLabel: options.fdLabels ? (pid, fd) => fds?.label(pid, fd) : undefined,
+        });
+        straceFormatters.set(out, format);
+      }
+      return format;
+    }
+
+    // Text output keeps the previous timestamp per stream (or per thread
+    // section with --by-thread) for -r
+    const timestampFormatters = new Map<unknown, (ns: number) => string>();
+    function timestampFormatterFor(stream: unknown): (ns: number) => string {
+      let format = timestampFormatters.get(stream);
+      if (!format) {
+        format = createTimestampFormatter({ style: options.timestamps, precision: options.precision, startDate });
+        timestampFormatters.set(stream, format);
+      }
+      return format;
     }
 
-    for (const event of events) {
-      output.write(formatEvent(event, { color: options.color }) + "\n");
+    // Column widths grow with the longest value seen, per output
+    const columnWidths = new Map<Output, Map<EventField, number>>();
+    function widthsFor(out: Output): Map<EventField, number> {
+      let widths = columnWidths.get(out);
+      if (!widths) {
+        widths = new Map();
+        columnWidths.set(out, widths);
+      }
+      return widths;
+    }
+
+    // --by-thread holds each thread's lines until the trace ends
+    interface ThreadSection {
+      out: Output;
+      header: string;
+      lines: string[];
+      syscalls: number;
+    }
+    const threadSections = new Map<string, ThreadSection>();
+    function threadKey(event: TraceEvent | TableEvent): string {
+      return `${event.pid ?? 0}/${event.tid ?? 0}`;
+    }
+    function writeLine(out: Output, event: TraceEvent | TableEvent, line: string, syscall = true): void {
+      if (!options.byThread) {
+        out.write(line + "\n");
+        return;
+      }
+      const key = threadKey(event);
+      let section = threadSections.get(key);
+      if (!section) {
+        const name = event.process?.split(" ")[0] || "?";
+        section = { out, header: `${name}/${event.pid ?? 0} thread ${formatThread(event)}`, lines: [], syscalls: 0 };
+        threadSections.set(key, section);
+      }
+      section.lines.push(line);
+      if (syscall) section.syscalls++;
+    }
+
+    function isSlowEnough(event: TraceEvent): boolean {
+      if (options.minDurationNs === undefined) return true;
+      return (event.durationNs ?? 0) >= options.minDurationNs;
+    }
+
+    function writeEvent(event: TraceEvent): void {
+      const out = outputFor(event);
+      if (options.format === "json") {
+        let json = jsonWriters.get(out);
+        if (!json) {
+          json = createJsonArrayWriter(out.write);
+          jsonWriters.set(out, json);
+        }
+        json.add(event);
+      } else if (options.format === "ndjson") {
+        out.write(formatNdjson(event) + "\n");
+      } else if (options.straceCompat) {
+        writeLine(out, event, straceFormatterFor(out)(event));
+      } else {
+        const pidPrefix = options.followForks && !options.splitByPid;
+        const fdLabel = options.fdLabels ? (fd: number) => fds?.label(event.pid, fd) : undefined;
+        const timestamp = timestampFormatterFor(options.byThread ? threadKey(event) : out);
+        writeLine(out, event, formatEvent(event, {
+          color: options.color,
+          pidPrefix,
+          fdLabel,
+          timestamp,
+          columns: options.columns,
+          template: options.template,
+          widths: widthsFor(out),
+        }));
+      }
+    }
+
+    function writeTableEvent(event: TableEvent): void {
+      const out = outputFor(event);
+      if (options.straceCompat) {
+        writeLine(out, event, straceFormatterFor(out)(event), false);
+      } else {
+        const timestamp = timestampFormatterFor(options.byThread ? threadKey(event) : out);
+        writeLine(out, event, formatTableEvent(event, {
+          color: options.color,
+          pidPrefix: options.followForks && !options.splitByPid,
+          timestamp,
+          columns: options.columns,
+          template: options.template,
+          widths: widthsFor(out),
+        }), false);
+      }
+    }
+
+    // "+++ exited with 1 +++" after a process's last line, like strace
+    function writeExit(exit: ProcessExit): void {
+      if (!showTrace || options.format !== "text") return;
+      const out = outputFor(exit.event);
+      if (customLayout) {
+        const timestamp = timestampFormatterFor(options.byThread ? threadKey(exit.event) : out);
+        writeLine(out, exit.event, formatExitEvent(exit, {
+          color: options.color,
+          pidPrefix: options.followForks && !options.splitByPid,
+          timestamp,
+          columns: options.columns,
+          template: options.template,
+          widths: widthsFor(out),
+        }), false);
+        return;
+      }
+      writeLine(out, exit.event, formatExitLine(exit, {
+        color: options.color,
+        pidPrefix: !options.splitByPid && (options.straceCompat || options.followForks),
+        strace: options.straceCompat,
+      }), false);
+    }
+
+    const timelineOutput = options.timelineFile ? openOutput(options.timelineFile) : undefined;
+    const timeline = timelineOutput ? createTimelineWriter(timelineOutput.write) : undefined;
+    const htmlOutput = options.htmlFile ? openOutput(options.htmlFile) : undefined;
+    const html = htmlOutput
+      ? createHtmlReportWriter(htmlOutput.write, { title: options.input ?? options.command.join(" ") })
+      : undefined;
+    sqlite = options.sqliteFile ? createSqliteWriter(options.sqliteFile) : undefined;
+
+    const matches = (event: TraceEvent) =>
+      (!options.filter || matchesSyscall(options.filter, event.syscall)) &&
+      (!options.status || matchesStatus(options.status, event)) &&
+      (!options.threads || matchesThread(options.threads, event));
+
+    // Format events as they are exported; only the summary and tree need them all
+    const summaryEvents: TraceEvent[] = [];
+    const treeEvents: TraceEvent[] = [];
+    const latencyEvents: TraceEvent[] = [];
+    const viewEvents: TraceEvent[] = [];
+    const exits = createExitTracker();
+    for await (const event of events) {
+      if ("table" in event) {
+        const traced = !tracedPids || (event.pid !== undefined && tracedPids.has(event.pid));
+        if (showTrace && traced && (!options.threads || matchesThread(options.threads, event))) {
+          writeTableEvent(event);
+        }
+        continue;
+      }
+
+      // The tree and fd tracker need fork/exit/close events even when -e hides them
+      if (options.tree) treeEvents.push(event);
+      if (matches(event)) {
+        if (options.summary) summaryEvents.push(event);
+        if (options.latency) latencyEvents.push(event);
+        if (showTrace && isSlowEnough(event)) writeEvent(event);
+        if (options.tui && isSlowEnough(event)) viewEvents.push(event);
+        timeline?.add(event);
+        html?.add(event);
+        sqlite?.add(event);
+      }
+      fds?.observe(event);
+
+      const exit = exits.observe(event);
+      if (exit) writeExit(exit);
+    }
+    for (const exit of exits.killed()) writeExit(exit);
+    // The recording also sees crashes, which leave no kill() in the trace
+    if (launched && (launched.status !== undefined || launched.signal !== undefined)) {
+      const exit = exits.ended(launched.pid, launched);
+      if (exit) writeExit(exit);
+    }
+    timeline?.end();
+    timelineOutput?.close?.();
+    html?.end();
+    htmlOutput?.close?.();
+    sqlite?.end();
+    sqlite = undefined;
+
+    if (options.tui) {
+      await runViewer(viewEvents, { title: options.input ?? options.command.join(" ") });
+    }
+
+    const bold = options.color ? "\x1b[1m" : "";
+    const reset = options.color ? "\x1b[0m" : "";
+    const written = new Set<Output>();
+    for (const section of threadSections.values()) {
+      if (written.has(section.out)) section.out.write("\n");
+      written.add(section.out);
+      const count = section.syscalls;
+      section.out.write(`${bold}${section.header}${reset} (${count} syscall${count === 1 ? "" : "s"})\n`);
+      section.out.write(section.lines.map((line) => line + "\n").join(""));
+    }
+
+    for (const json of jsonWriters.values()) json.end();
+    for (const out of pidOutputs.values()) out.close?.();
+
+    if (fds && options.fdReport) {
+      output.write("\n" + formatFdReport(fds.report()));
+    }
+
+    if (options.tree) {
+      if (showTrace) output.write("\n");
+      output.write(formatProcessTree(buildProcessTree(treeEvents)));
+    }
+
+    if (options.latency) {
+      if (showTrace || options.tree) output.write("\n");
+      const groupBy = options.perThread ? "thread" : options.perProcess ? "process" : "syscall";
+      output.write(formatLatencyReport(computeLatencies(latencyEvents, { groupBy }), { color: options.color }));
+    }
+
+    if (options.summary) {
+      if (showTrace || options.tree || options.latency) output.write("\n");
+      const groups = summarize(summaryEvents, { perProcess: options.perProcess });
+      output.write(formatSummary(groups, { sortBy: options.sortBy, color: options.color }));
     }
 
     output.close?.();
+
+    // Exit like the traced command, so wrapped test runs still fail
+    if (recordingStatus !== 0) {
+      process.stderr.write(`Error: xctrace exited with ${recordingStatus}, the trace may be incomplete\n`);
+      process.exitCode = recordingStatus;
+    } else if (options.command.length > 0) {
+      // The recording's status is authoritative; the syscalls are the fallback
+      const exit = launched && (launched.status !== undefined || launched.signal !== undefined)
+        ? launched
+        : launched && exits.exitOf(launched.pid);
+      if (exit) {
+        process.exitCode = exitCodeOf(exit);
+      } else {
+        process.stderr.write(`Warning: could not tell how ${options.command[0]} exited, exiting with 1\n`);
+        process.exitCode = 1;
+      }
+    }
   } catch (error) {
+    sqlite?.abort();
     if (error instanceof Error) {
       process.stderr.write(`Error: ${error.message}\n`);
     } else {
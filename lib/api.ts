@@ -0,0 +1,118 @@
+// Programmatic entry point: record a command and iterate over its syscalls.
+//
+//   import { trace, formatEvent } from "mactrace";
+//
+//   const t = await trace(["bun", "run", "save.ts"]);
+//   for await (const event of t.events()) {
+//     console.log(formatEvent(event, { color: false }));
+//   }
+//   await t.dispose();
+
+import { rm } from "fs/promises";
+import { runTrace, type RecordOptions } from "./tracer";
+import { streamTrace, readLaunchedProcess, type TraceEvent } from "./exporter";
+import { parseTraceExpression, matchesSyscall } from "./filter";
+import { createExitTracker, exitCodeOf, type ProcessExit } from "./exit-status";
+
+export type { TraceEvent, TableEvent, IncludeTable, ExportOptions } from "./exporter";
+export type { RecordOptions, TraceResult } from "./tracer";
+export type { FormatOptions, EventField } from "./formatter";
+export type { SyscallFilter, StatusFilter, ThreadFilter } from "./filter";
+export type { TraceDiff, SyscallDiff, DiffOptions, DiffStatus } from "./diff";
+export type { ProcessExit, ExitTracker } from "./exit-status";
+export type { ViewerOptions } from "./tui";
+export type { HtmlReportOptions } from "./html";
+export type { QueryResult, QueryFormat } from "./sqlite";
+export { runTrace, findProcess } from "./tracer";
+export { exportTrace, streamTrace, streamTable, listSchemas, INCLUDE_TABLES } from "./exporter";
+export {
+  formatEvent, formatEvents, formatTableEvent, formatExitEvent, describeTableEvent, formatThread, decodeArgs, formatReturnValue, isErrorEvent,
+  parseColumns, parseTemplate, EVENT_FIELDS, DEFAULT_COLUMNS,
+} from "./formatter";
+export { parseTraceExpression, matchesSyscall, parseStatusExpression, matchesStatus,
+  parseThreadExpression, matchesThread, filterEvents } from "./filter";
+export { summarize, formatSummary } from "./summary";
+export { toJsonEvent, fromJsonEvent } from "./json";
+export { diffTraces, formatDiff } from "./diff";
+export { mergeByTime } from "./merge";
+export { createExitTracker, exitCodeOf, formatExitLine } from "./exit-status";
+export { runViewer } from "./tui";
+export { createHtmlReportWriter } from "./html";
+export { createSqliteWriter, queryDatabase, formatQueryResult } from "./sqlite";
+
+export interface TraceOptions extends RecordOptions {
+  // strace-style trace expression, e.g. "%file,!stat64" (see -e trace=)
+  filter?: string;
+  // With attachPid, also include children forked by the attached process
+  followChildren?: boolean;
+}
+
+export interface Trace {
+  // The recorded .trace bundle (deleted by dispose() unless options.output was given)
+  traceFile: string;
+  // Exit code of the traced command: its exit status, or 128 + the signal that
+  // killed it. Undefined when neither the recording nor the syscalls show how it ended.
+  exitCode?: number;
+  // Signal that killed the traced command
+  signal?: number;
+  // Exit code of xctrace itself; non-zero means the trace may be incomplete
+  recordingStatus: number;
+  // Stream the recorded syscalls; can be called more than once
+  events(): AsyncIterable<TraceEvent>;
+  // Collect all recorded syscalls
+  collect(): Promise<TraceEvent[]>;
+  // Remove the temporary .trace bundle
+  dispose(): Promise<void>;
+}
+
+// How the traced process ended. The recording knows for a launched command,
+// including crashes; otherwise the syscalls may show it.
+async function readTargetExit(
+  traceFile: string,
+  attachPid: number | undefined
+): Promise<Pick<ProcessExit, "status" | "signal"> | undefined> {
+  const launched = attachPid === undefined ? await readLaunchedProcess(traceFile) : undefined;
+  if (launched?.status !== undefined || launched?.signal !== undefined) return launched;
+
+  const pid = attachPid ?? launched?.pid;
+  if (pid === undefined) return undefined;
+  const exits = createExitTracker();
+  for await (const event of streamTrace(traceFile, { pid })) exits.observe(event);
+  exits.killed();
+  return exits.exitOf(pid);
+}
+
+// Record a command (or an attached process) and return its syscall stream
+export async function trace(command: string[], options: TraceOptions = {}): Promise<Trace> {
+  // Parse the filter up front so a bad expression fails before recording
+  const filter = options.filter ? parseTraceExpression(options.filter) : undefined;
+  const result = await runTrace(command, options);
+  const exit = await readTargetExit(result.traceFile, options.attachPid);
+
+  async function* events(): AsyncGenerator<TraceEvent> {
+    const stream = streamTrace(result.traceFile, {
+      pid: options.attachPid,
+      followChildren: options.followChildren,
+    });
+    for await (const event of stream) {
+      if (!filter || matchesSyscall(filter, event.syscall)) yield event;
+    }
+  }
+
+  return {
+    traceFile: result.traceFile,
+    exitCode: exit && exitCodeOf(exit),
+    signal: exit?.signal,
+    recordingStatus: result.exitCode,
+    events,
+    async collect() {
+      const list: TraceEvent[] = [];
+      for await (const event of events()) list.push(event);
+      return list;
+    },
+    async dispose() {
+      if (options.output) return;
+      await rm(result.traceFile, { recursive: true, force: true });
+    },
+  };
+}
@@ -0,0 +1,50 @@
+import type { TraceEvent } from "./exporter";
+import { isErrorEvent } from "./formatter";
+
+// Syscalls whose result in the parent is a child's pid: fork and vfork return
+// the new child, wait4 the child it reaped
+const childResultSyscalls = new Set(["fork", "vfork", "wait4", "wait4_nocancel"]);
+
+function parseNum(s: string | undefined): number | undefined {
+  if (!s) return undefined;
+  const val = parseInt(s, s.startsWith("0x") ? 16 : 10);
+  return isNaN(val) ? undefined : val;
+}
+
+// The child pid an event of the parent names, if any. posix_spawn only writes
+// the new pid to memory the trace doesn't show, so its children are found when
+// the parent reaps them with wait4.
+export function childPidOf(event: TraceEvent): number | undefined {
+  if (event.pid === undefined || isErrorEvent(event) || !childResultSyscalls.has(event.syscall)) {
+    return undefined;
+  }
+  const child = parseNum(event.result);
+  return child !== undefined && child > 0 && child !== event.pid ? child : undefined;
+}
+
+// A process and its descendants. wait4 comes after the child's own events, so
+// this needs the whole trace before any of it can be filtered.
+export async function findProcessFamily(
+  events: AsyncIterable<TraceEvent> | Iterable<TraceEvent>,
+  pid: number
+): Promise<Set<number>> {
+  const children = new Map<number, number[]>();
+  for await (const event of events) {
+    const child = childPidOf(event);
+    if (child === undefined) continue;
+    const list = children.get(event.pid!) ?? [];
+    list.push(child);
+    children.set(event.pid!, list);
+  }
+
+  const family = new Set([pid]);
+  const queue = [pid];
+  while (queue.length > 0) {
+    for (const child of children.get(queue.shift()!) ?? []) {
+      if (family.has(child)) continue;
+      family.add(child);
+      queue.push(child);
+    }
+  }
+  return family;
+}
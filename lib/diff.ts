@@ -0,0 +1,167 @@
+import type { TraceEvent } from "./exporter";
+import { summarize, type SyscallStats } from "./summary";
+import { formatSeconds } from "./time";
+
+export type DiffStatus = "new" | "removed" | "changed" | "unchanged";
+
+export interface SyscallDiff {
+  syscall: string;
+  status: DiffStatus;
+  before: SyscallStats;
+  after: SyscallStats;
+}
+
+export interface TraceDiff {
+  before: { calls: number; errors: number; totalNs: number };
+  after: { calls: number; errors: number; totalNs: number };
+  syscalls: SyscallDiff[];
+}
+
+export interface DiffOptions {
+  // Relative change in calls or time that counts as significant (0.1 = 10%)
+  threshold?: number;
+  // Include unchanged syscalls in the formatted table
+  all?: boolean;
+  color?: boolean;
+}
+
+function emptyStats(syscall: string): SyscallStats {
+  return { syscall, calls: 0, errors: 0, totalNs: 0, maxNs: 0 };
+}
+
+function totals(stats: SyscallStats[]) {
+  return {
+    calls: stats.reduce((sum, s) => sum + s.calls, 0),
+    errors: stats.reduce((sum, s) => sum + s.errors, 0),
+    totalNs: stats.reduce((sum, s) => sum + s.totalNs, 0),
+  };
+}
+
+function relativeChange(before: number, after: number): number {
+  if (before === 0) return after === 0 ? 0 : Infinity;
+  return Math.abs(after - before) / before;
+}
+
+function classify(before: SyscallStats, after: SyscallStats, threshold: number): DiffStatus {
+  if (before.calls === 0) return "new";
+  if (after.calls === 0) return "removed";
+  const significant = after.errors !== before.errors ||
+    relativeChange(before.calls, after.calls) >= threshold ||
+    relativeChange(before.totalNs, after.totalNs) >= threshold;
+  return significant ? "changed" : "unchanged";
+}
+
+const STATUS_ORDER: Record<DiffStatus, number> = { new: 0, removed: 1, changed: 2, unchanged: 3 };
+
+// Compare per-syscall counts, time and errors between two runs. New and
+// removed syscalls come first, then the rest by the size of the change in
+// calls and then in time.
+export function diffTraces(
+  beforeEvents: TraceEvent[],
+  afterEvents: TraceEvent[],
+  options: DiffOptions = {}
+): TraceDiff {
+  const threshold = options.threshold ?? 0.1;
+  const beforeStats = summarize(beforeEvents)[0]!.stats;
+  const afterStats = summarize(afterEvents)[0]!.stats;
+
+  const before = new Map(beforeStats.map((s) => [s.syscall, s]));
+  const after = new Map(afterStats.map((s) => [s.syscall, s]));
+  const names = new Set([...before.keys(), ...after.keys()]);
+
+  const syscalls = [...names].map((syscall) => {
+    const b = before.get(syscall) ?? emptyStats(syscall);
+    const a = after.get(syscall) ?? emptyStats(syscall);
+    return { syscall, status: classify(b, a, threshold), before: b, after: a };
+  });
+
+  syscalls.sort((x, y) =>
+    STATUS_ORDER[x.status] - STATUS_ORDER[y.status] ||
+    Math.abs(y.after.calls - y.before.calls) - Math.abs(x.after.calls - x.before.calls) ||
+    Math.abs(y.after.totalNs - y.before.totalNs) - Math.abs(x.after.totalNs - x.before.totalNs) ||
+    x.syscall.localeCompare(y.syscall)
+  );
+
+  return { before: totals(beforeStats), after: totals(afterStats), syscalls };
+}
+
+function pad(s: string, len: number, left = true): string {
+  if (s.length >= len) return s;
+  const spaces = " ".repeat(len - s.length);
+  return left ? spaces + s : s + spaces;
+}
+
+function signed(n: number, format: (n: number) => string = String): string {
+  return n > 0 ? `+${format(n)}` : n < 0 ? `-${format(-n)}` : "0";
+}
+
+function percent(before: number, after: number): string {
+  if (before === 0) return after === 0 ? "" : "new";
+  const change = ((after - before) / before) * 100;
+  return `${change > 0 ? "+" : ""}${change.toFixed(0)}%`;
+}
+
+// Render a diff as a table: increases in red, decreases in green
+export function formatDiff(diff: TraceDiff, options: DiffOptions = {}): string {
+  const dim = options.color ? "\x1b[2m" : "";
+  const red = options.color ? "\x1b[31m" : "";
+  const green = options.color ? "\x1b[32m" : "";
+  const yellow = options.color ? "\x1b[33m" : "";
+  const reset = options.color ? "\x1b[0m" : "";
+
+  const paint = (delta: number, s: string) =>
+    delta > 0 ? `${red}${s}${reset}` : delta < 0 ? `${green}${s}${reset}` : s;
+
+  const separator = `${dim}--------- --------- ---------- ------ ----------- ----------- ----------- ------- ------- -------- ----------------${reset}`;
+  const lines = [
+    `${dim}   calls a   calls b      delta      %   seconds a   seconds b       delta  errs a  errs b status   syscall${reset}`,
+    separator,
+  ];
+
+  const rows = options.all ? diff.syscalls : diff.syscalls.filter((s) => s.status !== "unchanged");
+  for (const { syscall, status, before, after } of rows) {
+    const callsDelta = after.calls - before.calls;
+    const timeDelta = after.totalNs - before.totalNs;
+    const errorsDelta = after.errors - before.errors;
+    const statusColor = status === "new" ? yellow : status === "removed" ? dim : "";
+
+    lines.push([
+      pad(String(before.calls), 9),
+      pad(String(after.calls), 9),
+      paint(callsDelta, pad(signed(callsDelta), 10)),
+      paint(callsDelta, pad(percent(before.calls, after.calls), 6)),
+      pad(formatSeconds(before.totalNs), 11),
+      pad(formatSeconds(after.totalNs), 11),
+      paint(timeDelta, pad(signed(timeDelta, formatSeconds), 11)),
+      pad(String(before.errors), 7),
+      paint(errorsDelta, pad(String(after.errors), 7)),
+      `${statusColor}${pad(status, 8, false)}${reset}`,
+      syscall,
+    ].join(" "));
+  }
+
+  const callsDelta = diff.after.calls - diff.before.calls;
+  const timeDelta = diff.after.totalNs - diff.before.totalNs;
+  const errorsDelta = diff.after.errors - diff.before.errors;
+  lines.push(separator);
+  lines.push([
+    pad(String(diff.before.calls), 9),
+    pad(String(diff.after.calls), 9),
+    paint(callsDelta, pad(signed(callsDelta), 10)),
+    paint(callsDelta, pad(percent(diff.before.calls, diff.after.calls), 6)),
+    pad(formatSeconds(diff.before.totalNs), 11),
+    pad(formatSeconds(diff.after.totalNs), 11),
+    paint(timeDelta, pad(signed(timeDelta, formatSeconds), 11)),
+    pad(String(diff.before.errors), 7),
+    paint(errorsDelta, pad(String(diff.after.errors), 7)),
+    pad("", 8),
+    "total",
+  ].join(" "));
+
+  const hidden = diff.syscalls.length - rows.length;
+  if (hidden > 0) {
+    lines.push(`${dim}${hidden} unchanged syscalls hidden (--all shows them)${reset}`);
+  }
+
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,138 @@
+import type { TraceEvent } from "./exporter";
+import { isErrorEvent } from "./formatter";
+import { formatSignal, NONFATAL_SIGNALS } from "./syscalls";
+
+export interface ProcessExit {
+  pid: number;
+  process?: string;
+  // Status passed to exit() (the low 8 bits, as a parent sees them)
+  status?: number;
+  // Signal that killed the process, when it never called exit()
+  signal?: number;
+  // The exit() call, or the last event of a killed process
+  event: TraceEvent;
+}
+
+export interface ExitTracker {
+  // Update with an event; returns the process's exit when the event is exit()
+  observe(event: TraceEvent): ProcessExit | undefined;
+  // Processes that were sent a fatal signal and made no syscall afterwards
+  killed(): ProcessExit[];
+  // How a process ended, if known
+  exitOf(pid: number): ProcessExit | undefined;
+  // Record how a process ended when that's known from outside the syscalls,
+  // e.g. a crash the recording saw; returns the exit unless one was already seen
+  ended(pid: number, how: Pick<ProcessExit, "status" | "signal">): ProcessExit | undefined;
+}
+
+function parseNum(s: string | undefined): number | undefined {
+  if (!s) return undefined;
+  const val = parseInt(s, s.startsWith("0x") ? 16 : 10);
+  return isNaN(val) ? undefined : val;
+}
+
+// SIGABRT, which abort_with_payload terminates the caller with
+const SIGABRT = 6;
+
+// Work out how each process ended. exit() gives the status directly. A killed
+// process leaves no exit() behind, so a fatal signal sent to it with kill(),
+// raised with __pthread_kill() (as abort() does) or abort_with_payload(),
+// counts when the process makes no syscall after it.
+export function createExitTracker(): ExitTracker {
+  const exits = new Map<number, ProcessExit>();
+  // Fatal signal sent to a pid, and the last event seen from that pid
+  const pending = new Map<number, number>();
+  const lastEvents = new Map<number, TraceEvent>();
+
+  function send(pid: number, sig: number | undefined): void {
+    if (sig !== undefined && sig > 0 && !NONFATAL_SIGNALS.has(sig)) pending.set(pid, sig);
+  }
+
+  return {
+    observe(event) {
+      const pid = event.pid;
+      if (pid === undefined) return undefined;
+
+      // Still running, so any earlier signal was handled
+      pending.delete(pid);
+      lastEvents.set(pid, event);
+
+      if (event.syscall === "exit") {
+        const exit = { pid, process: event.process, status: (parseNum(event.args?.[0]) ?? 0) & 0xff, event };
+        exits.set(pid, exit);
+        return exit;
+      }
+
+      if (isErrorEvent(event)) return undefined;
+      if (event.syscall === "kill") {
+        const target = parseNum(event.args?.[0]);
+        if (target !== undefined && target > 0) send(target, parseNum(event.args?.[1]));
+      } else if (event.syscall === "__pthread_kill") {
+        send(pid, parseNum(event.args?.[1]));
+      } else if (event.syscall === "abort_with_payload") {
+        send(pid, SIGABRT);
+      }
+      return undefined;
+    },
+
+    killed() {
+      const list: ProcessExit[] = [];
+      for (const [pid, signal] of pending) {
+        const event = lastEvents.get(pid);
+        if (!event || exits.has(pid)) continue;
+        const exit = { pid, process: event.process, signal, event };
+        exits.set(pid, exit);
+        list.push(exit);
+      }
+      pending.clear();
+      return list;
+    },
+
+    exitOf(pid) {
+      return exits.get(pid);
+    },
+
+    ended(pid, how) {
+      const event = lastEvents.get(pid);
+      if (!event || exits.has(pid)) return undefined;
+      const exit = { pid, process: event.process, status: how.status, signal: how.signal, event };
+      exits.set(pid, exit);
+      pending.delete(pid);
+      return exit;
+    },
+  };
+}
+
+// Exit code for mactrace itself: the status, or 128 + the signal like a shell
+export function exitCodeOf(exit: Pick<ProcessExit, "status" | "signal">): number {
+  return exit.signal !== undefined ? 128 + exit.signal : exit.status ?? 0;
+}
+
+export interface ExitLineOptions {
+  color?: boolean;
+  // Prefix with "[pid N]" (-f); otherwise the process is named in the line
+  pidPrefix?: boolean;
+  // strace's exact form, which leaves the process out without -f
+  strace?: boolean;
+}
+
+// strace's trailer for a process: "+++ exited with 1 +++" or "+++ killed by SIGSEGV +++"
+export function formatExitLine(exit: ProcessExit, options: ExitLineOptions = {}): string {
+  const what = exit.signal !== undefined ? `killed by ${formatSignal(exit.signal)}` : `exited with ${exit.status}`;
+
+  if (options.strace) {
+    const prefix = options.pidPrefix ? `[pid ${String(exit.pid).padStart(5)}] ` : "";
+    return `${prefix}+++ ${what} +++`;
+  }
+
+  const failed = exit.signal !== undefined || exit.status !== 0;
+  const color = options.color ? (failed ? "\x1b[1m\x1b[31m" : "\x1b[2m") : "";
+  const cyan = options.color ? "\x1b[36m" : "";
+  const reset = options.color ? "\x1b[0m" : "";
+  const name = exit.process?.split(" ")[0] || "?";
+
+  if (options.pidPrefix) {
+    return `${cyan}[pid ${String(exit.pid).padStart(5)}]${reset} ${color}+++ ${what} +++${reset}`;
+  }
+  return `${color}+++ ${name}/${exit.pid} ${what} +++${reset}`;
+}
@@ -1,25 +1,70 @@
-import { XMLParser } from "fast-xml-parser";
+import { decodeStream, tokenizeXml } from "./xml-stream";
+import { ERRNO_NAMES, SIGNAL_NAMES, parseErrno } from "./syscalls";
+import { parseDuration, parseTimestamp } from "./time";
+import { isJsonEventFile, readJsonEvents } from "./json";
+import { findProcessFamily } from "./children";
 
 export interface TraceEvent {
-  timestamp: string;
-  duration?: string;
+  timestamp: string;   // xctrace's display form, e.g. "00:00.262.123"
+  duration?: string;   // e.g. "5.75 µs"
+  startNs: number;     // Nanoseconds since the trace started
+  durationNs?: number;
+  endNs?: number;
   syscall: string;
   signature: string;
   pid?: number;
   tid?: number;
+  threadName?: string; // Thread name or dispatch queue label, e.g. "Main Thread"
   process?: string;
   result?: string;
-  errno?: string;
+  errno?: string;      // xctrace's errno text, e.g. "No such file or directory"
+  errnoCode?: number;  // Numeric errno (0 when xctrace reports success)
+  errnoName?: string;  // Symbolic errno, e.g. "ENOENT"
   args?: string[];  // Raw syscall arguments (formatted hex values)
 }
 
-const parser = new XMLParser({
-  ignoreAttributes: false,
-  attributeNamePrefix: "@_",
-  textNodeName: "#text",
-  parseAttributeValue: false, // Keep as strings to preserve formatting
-  trimValues: true,
-});
+// Other System Trace tables that --include interleaves with the syscalls
+export const INCLUDE_TABLES = ["vm-faults", "thread-state", "context-switch"] as const;
+
+export type IncludeTable = typeof INCLUDE_TABLES[number];
+
+// The schema each table is exported from
+const TABLE_SCHEMAS: Record<IncludeTable, string> = {
+  "vm-faults": "virtual-memory",
+  "thread-state": "thread-state",
+  "context-switch": "context-switch",
+};
+
+// A row of an --include table, e.g. a page-in or a thread being preempted
+export interface TableEvent {
+  table: IncludeTable;
+  timestamp: string;
+  duration?: string;
+  startNs: number;
+  durationNs?: number;
+  endNs?: number;
+  pid?: number;
+  tid?: number;
+  threadName?: string;
+  process?: string;
+  // The table's other columns by element name, as xctrace formats them
+  // (e.g. { "vm-op": "Page In", address: "0x10a4c8000" })
+  fields: Record<string, string>;
+}
+
+export interface ExportOptions {
+  // Only keep rows from this process
+  pid?: number;
+  // Also keep rows from processes pid forked or spawned (and their children)
+  followChildren?: boolean;
+  // Only keep rows from these processes, e.g. a family found beforehand
+  // with findProcessFamily (replaces pid and followChildren)
+  pids?: ReadonlySet<number>;
+}
+
+// A parsed XML element: attributes as "@_name", text as "#text" and child
+// elements by name (an array when repeated)
+type XmlElement = Record<string, unknown>;
 
 async function runXctraceExport(
   traceFile: string,
@@ -37,26 +82,95 @@ async function runXctraceExport(
   return result.stdout.toString();
 }
 
-// Build a map of id -> element for resolving references
-function buildRefMap(obj: unknown, map: Map<string, unknown> = new Map()): Map<string, unknown> {
-  if (obj === null || typeof obj !== "object") return map;
+// Stream the stdout of `xctrace export` as text chunks
+async function* streamXctraceExport(
+  traceFile: string,
+  args: string[]
+): AsyncGenerator<string> {
+  const proc = Bun.spawn(["xcrun", "xctrace", "export", "--input", traceFile, ...args], {
+    stdin: "ignore",
+    stdout: "pipe",
+    stderr: "pipe",
+  });
+  // Read stderr alongside stdout, or xctrace blocks once the pipe fills
+  const stderr = new Response(proc.stderr).text();
 
-  if (Array.isArray(obj)) {
-    for (const item of obj) {
-      buildRefMap(item, map);
+  try {
+    yield* decodeStream(proc.stdout);
+
+    const exitCode = await proc.exited;
+    if (exitCode !== 0) {
+      throw new Error(`xctrace export failed: ${await stderr}`);
     }
-  } else {
-    const rec = obj as Record<string, unknown>;
-    const id = rec["@_id"];
-    if (id !== undefined) {
-      map.set(String(id), rec);
+  } finally {
+    // Stop the export when the consumer stops early (a no-op once it exited)
+    proc.kill();
+  }
+}
+
+// Exported XML (from `xctrace export --xpath ...`) can be analysed without xctrace
+function isXmlExport(input: string): boolean {
+  return input.toLowerCase().endsWith(".xml");
+}
+
+// Neither exported XML nor saved json/ndjson events have a TOC
+function hasToc(input: string): boolean {
+  return !isXmlExport(input) && !isJsonEventFile(input);
+}
+
+// Parse <row> elements from an export as they arrive. Elements carrying an
+// id are remembered so later ref="..." back-references can be resolved; the
+// rows themselves are dropped once yielded.
+async function* parseRows(
+  chunks: AsyncIterable<string>,
+  refMap: Map<string, unknown>
+): AsyncGenerator<XmlElement> {
+  // Open elements inside the current row (empty when outside a row)
+  const stack: { name: string; el: XmlElement; text: string }[] = [];
+
+  for await (const token of tokenizeXml(chunks)) {
+    if (token.type === "text") {
+      const top = stack[stack.length - 1];
+      if (top) top.text += token.text;
+      continue;
     }
-    for (const value of Object.values(rec)) {
-      buildRefMap(value, map);
+
+    if (token.type === "open") {
+      if (stack.length === 0 && token.name !== "row") continue;
+
+      const el: XmlElement = {};
+      for (const [key, value] of Object.entries(token.attrs)) {
+        el[`@_${key}`] = value;
+      }
+      stack.push({ name: token.name, el, text: "" });
+      if (!token.selfClosing) continue;
+    } else if (stack[stack.length - 1]?.name !== token.name) {
+      continue;
     }
-  }
 
-  return map;
+    // Element complete (closing tag or self-closing)
+    const done = stack.pop()!;
+    const text = done.text.trim();
+    if (text) done.el["#text"] = text;
+
+    const id = done.el["@_id"];
+    if (id !== undefined) refMap.set(String(id), done.el);
+
+    const parent = stack[stack.length - 1];
+    if (!parent) {
+      yield done.el;
+      continue;
+    }
+
+    const existing = parent.el[done.name];
+    if (existing === undefined) {
+      parent.el[done.name] = done.el;
+    } else if (Array.isArray(existing)) {
+      existing.push(done.el);
+    } else {
+      parent.el[done.name] = [existing, done.el];
+    }
+  }
 }
 
 // Get a value, resolving refs if needed
@@ -92,14 +206,170 @@ function getText(obj: unknown, refMap: Map<string, unknown>): string | undefined
   return undefined;
 }
 
-export async function exportTrace(traceFile: string): Promise<TraceEvent[]> {
+// The name in a thread's fmt, e.g. "Main Thread" from
+// "Main Thread 0x1f2a (ls, pid: 52313)"; unnamed threads print just the tid
+function parseThreadName(fmt: string | undefined): string | undefined {
+  const name = fmt?.replace(/\s*0x[0-9a-f]+\s*(\(.*\))?$/i, "").trim();
+  return name && name !== "Thread" ? name : undefined;
+}
+
+// Integer nanoseconds from an element's text
+function parseNs(text: string | undefined): number | undefined {
+  return text && /^\d+$/.test(text.trim()) ? Number(text) : undefined;
+}
+
+// Columns every System Trace table shares: when, how long, which process and thread
+type RowContext = Pick<TraceEvent,
+  "timestamp" | "duration" | "startNs" | "durationNs" | "endNs" | "pid" | "tid" | "threadName" | "process">;
+
+function rowContext(row: XmlElement, refMap: Map<string, unknown>): RowContext {
+  // Extract timestamp; the element's text is nanoseconds, fmt is for display
+  const startTime = row["start-time"];
+  const timestamp = getFmt(startTime, refMap) ?? "";
+  const startNs = parseNs(getText(startTime, refMap)) ?? parseTimestamp(timestamp) ?? 0;
+
+  // Extract duration
+  const durationEl = row["duration"];
+  const duration = getFmt(durationEl, refMap);
+  const durationNs = parseNs(getText(durationEl, refMap)) ?? parseDuration(duration);
+
+  // Extract process info
+  const processEl = resolveValue(row["process"], refMap) as Record<string, unknown> | undefined;
+  const process = getFmt(processEl, refMap);
+
+  const pidEl = processEl?.pid;
+  const pidStr = getFmt(pidEl, refMap) ?? getText(pidEl, refMap);
+  const pid = pidStr ? parseInt(pidStr, 10) : undefined;
+
+  // Extract thread info
+  const threadEl = resolveValue(row["thread"], refMap) as Record<string, unknown> | undefined;
+  const tidEl = threadEl?.tid;
+  const tidStr = getFmt(tidEl, refMap) ?? getText(tidEl, refMap);
+  const tid = tidStr ? parseInt(tidStr.replace("0x", ""), 16) : undefined;
+  const threadName = parseThreadName(getFmt(threadEl, refMap)) ??
+    getFmt(row["dispatch-queue"], refMap);
+
+  return {
+    timestamp,
+    duration,
+    startNs,
+    durationNs,
+    endNs: durationNs !== undefined ? startNs + durationNs : undefined,
+    pid,
+    tid,
+    threadName,
+    process,
+  };
+}
+
+function rowToEvent(row: XmlElement, refMap: Map<string, unknown>): TraceEvent {
+  // Extract formatted-label (the nicely formatted syscall signature)
+  const formattedLabel = row["formatted-label"];
+  const signature = getFmt(formattedLabel, refMap) ?? "";
+
+  // Extract syscall name
+  const syscallEl = row["syscall"];
+  const syscall = getFmt(syscallEl, refMap) ?? getText(syscallEl, refMap) ?? "unknown";
+
+  // Extract return value (may be array with multiple elements)
+  const returnEl = row["syscall-return"];
+  let result: string | undefined;
+  if (Array.isArray(returnEl)) {
+    // First element usually has the actual return value
+    for (const el of returnEl) {
+      const val = getFmt(el, refMap);
+      if (val) {
+        result = val;
+        break;
+      }
+    }
+  } else {
+    result = getFmt(returnEl, refMap);
+  }
+
+  // Extract errno if present
+  const narrativeEl = row["narrative"];
+  let errno: string | undefined;
+  let errnoCode: number | undefined;
+  if (narrativeEl) {
+    const resolved = resolveValue(narrativeEl, refMap) as Record<string, unknown> | undefined;
+    const errnoEl = resolved?.errno;
+    errno = getFmt(errnoEl, refMap) ?? getText(errnoEl, refMap);
+
+    // The element's text is the errno value; fall back to its message
+    const raw = getText(errnoEl, refMap);
+    errnoCode = raw && /^\d+$/.test(raw.trim()) ? parseInt(raw, 10) : parseErrno(errno);
+  }
+
+  // Extract raw syscall arguments
+  const args: string[] = [];
+  const argEls = row["syscall-arg"];
+  if (argEls) {
+    const argList = Array.isArray(argEls) ? argEls : [argEls];
+    for (const argEl of argList) {
+      const val = getFmt(argEl, refMap);
+      if (val) args.push(val);
+    }
+  }
+
+  return {
+    ...rowContext(row, refMap),
+    syscall: syscall.replace(/^[BM]SC_/, ""), // Remove BSC_/MSC_ prefix
+    signature: signature || syscall.replace(/^[BM]SC_/, ""),
+    result,
+    errno,
+    errnoCode,
+    errnoName: errnoCode !== undefined ? ERRNO_NAMES[errnoCode] : undefined,
+    args,
+  };
+}
+
+// Stream syscall events from a .trace bundle, XML previously exported from
+// one, or events saved with --format json/ndjson, as rows arrive
+export async function* streamTrace(
+  traceFile: string,
+  options: ExportOptions = {}
+): AsyncGenerator<TraceEvent> {
+  let pids = options.pids;
+  if (!pids && options.pid !== undefined) {
+    // Children are only known once the whole trace has been read, so
+    // following them reads it twice
+    pids = options.followChildren
+      ? await findProcessFamily(streamSyscalls(traceFile), options.pid)
+      : new Set([options.pid]);
+  }
+  if (!pids) {
+    yield* streamSyscalls(traceFile);
+    return;
+  }
+
+  for await (const event of streamSyscalls(traceFile)) {
+    if (event.pid !== undefined && pids.has(event.pid)) yield event;
+  }
+}
+
+async function* streamSyscalls(traceFile: string): AsyncGenerator<TraceEvent> {
+  if (isJsonEventFile(traceFile)) {
+    yield* readJsonEvents(traceFile);
+    return;
+  }
+
   // Export syscall data
   const xpath = '/trace-toc/run[@number="1"]/data/table[@schema="syscall"]';
+  const xmlExport = isXmlExport(traceFile);
+  const chunks = xmlExport
+    ? decodeStream(Bun.file(traceFile).stream())
+    : streamXctraceExport(traceFile, ["--xpath", xpath]);
+
+  const refMap = new Map<string, unknown>();
 
-  let dataXml: string;
   try {
-    dataXml = await runXctraceExport(traceFile, ["--xpath", xpath]);
+    for await (const row of parseRows(chunks, refMap)) {
+      yield rowToEvent(row, refMap);
+    }
   } catch (e) {
+    if (xmlExport) throw e;
+
     // Try without the target-pid filter
     const tocXml = await runXctraceExport(traceFile, ["--toc"]);
     if (!tocXml.includes('schema="syscall"')) {
@@ -110,118 +380,121 @@ export async function exportTrace(traceFile: string): Promise<TraceEvent[]> {
           console.error(`  - ${s}`);
         }
       }
-      return [];
+      return;
     }
     throw e;
   }
+}
 
-  const data = parser.parse(dataXml);
+// Collect every event from streamTrace
+export async function exportTrace(
+  traceFile: string,
+  options: ExportOptions = {}
+): Promise<TraceEvent[]> {
   const events: TraceEvent[] = [];
+  for await (const event of streamTrace(traceFile, options)) {
+    events.push(event);
+  }
+  return events;
+}
 
-  // Navigate to the rows
-  const queryResult = data?.["trace-query-result"];
-  if (!queryResult) return events;
-
-  const node = queryResult?.node;
-  if (!node) return events;
-
-  // Build reference map
-  const refMap = buildRefMap(node);
-
-  // Get rows
-  const rows = node?.row;
-  if (!rows) return events;
-
-  const rowList = Array.isArray(rows) ? rows : [rows];
-
-  for (const row of rowList) {
-    if (!row || typeof row !== "object") continue;
-
-    // Extract formatted-label (the nicely formatted syscall signature)
-    const formattedLabel = row["formatted-label"];
-    const signature = getFmt(formattedLabel, refMap) ?? "";
-
-    // Extract syscall name
-    const syscallEl = row["syscall"];
-    const syscall = getFmt(syscallEl, refMap) ?? getText(syscallEl, refMap) ?? "unknown";
-
-    // Extract timestamp
-    const startTime = row["start-time"];
-    const timestamp = getFmt(startTime, refMap) ?? "";
-
-    // Extract duration
-    const durationEl = row["duration"];
-    const duration = getFmt(durationEl, refMap);
-
-    // Extract process info
-    const processEl = resolveValue(row["process"], refMap) as Record<string, unknown> | undefined;
-    const process = getFmt(processEl, refMap);
-
-    const pidEl = processEl?.pid;
-    const pidStr = getFmt(pidEl, refMap) ?? getText(pidEl, refMap);
-    const pid = pidStr ? parseInt(pidStr, 10) : undefined;
-
-    // Extract thread info
-    const threadEl = resolveValue(row["thread"], refMap) as Record<string, unknown> | undefined;
-    const tidEl = threadEl?.tid;
-    const tidStr = getFmt(tidEl, refMap) ?? getText(tidEl, refMap);
-    const tid = tidStr ? parseInt(tidStr.replace("0x", ""), 16) : undefined;
-
-    // Extract return value (may be array with multiple elements)
-    const returnEl = row["syscall-return"];
-    let result: string | undefined;
-    if (Array.isArray(returnEl)) {
-      // First element usually has the actual return value
-      for (const el of returnEl) {
-        const val = getFmt(el, refMap);
-        if (val) {
-          result = val;
-          break;
-        }
-      }
-    } else {
-      result = getFmt(returnEl, refMap);
-    }
-
-    // Extract errno if present
-    const narrativeEl = row["narrative"];
-    let errno: string | undefined;
-    if (narrativeEl) {
-      const resolved = resolveValue(narrativeEl, refMap) as Record<string, unknown> | undefined;
-      const errnoEl = resolved?.errno;
-      errno = getFmt(errnoEl, refMap) ?? getText(errnoEl, refMap);
+// Check that a recording has the tables to --include, before exporting them
+export async function checkIncludeTables(traceFile: string, tables: IncludeTable[]): Promise<void> {
+  if (!hasToc(traceFile)) {
+    throw new Error("--include requires a .trace bundle, not exported XML or events");
+  }
+  const schemas = await listSchemas(traceFile);
+  for (const table of tables) {
+    if (!schemas.includes(TABLE_SCHEMAS[table])) {
+      throw new Error(`No ${TABLE_SCHEMAS[table]} table in the trace for --include ${table} (available: ${schemas.join(", ")})`);
     }
+  }
+}
 
-    // Extract raw syscall arguments
-    const args: string[] = [];
-    const argEls = row["syscall-arg"];
-    if (argEls) {
-      const argList = Array.isArray(argEls) ? argEls : [argEls];
-      for (const argEl of argList) {
-        const val = getFmt(argEl, refMap);
-        if (val) args.push(val);
-      }
-    }
+// Columns every table has, read by rowContext rather than kept in fields
+const CONTEXT_COLUMNS = new Set(["start-time", "duration", "process", "thread", "dispatch-queue"]);
 
-    events.push({
-      timestamp,
-      duration,
-      syscall: syscall.replace(/^[BM]SC_/, ""), // Remove BSC_/MSC_ prefix
-      signature: signature || syscall.replace(/^[BM]SC_/, ""),
-      pid,
-      tid,
-      process,
-      result,
-      errno,
-      args,
-    });
+function rowToTableEvent(table: IncludeTable, row: XmlElement, refMap: Map<string, unknown>): TableEvent {
+  const fields: Record<string, string> = {};
+  for (const [name, el] of Object.entries(row)) {
+    if (name.startsWith("@_") || name === "#text" || CONTEXT_COLUMNS.has(name)) continue;
+    const first = Array.isArray(el) ? el[0] : el;
+    const value = getFmt(first, refMap) ?? getText(first, refMap);
+    if (value) fields[name] = value;
   }
+  return { table, ...rowContext(row, refMap), fields };
+}
 
-  return events;
+// Stream the rows of an --include table from a .trace bundle, in the order
+// xctrace exports them (by start time)
+export async function* streamTable(traceFile: string, table: IncludeTable): AsyncGenerator<TableEvent> {
+  const xpath = `/trace-toc/run[@number="1"]/data/table[@schema="${TABLE_SCHEMAS[table]}"]`;
+  const refMap = new Map<string, unknown>();
+  for await (const row of parseRows(streamXctraceExport(traceFile, ["--xpath", xpath]), refMap)) {
+    yield rowToTableEvent(table, row, refMap);
+  }
 }
 
 export async function listSchemas(traceFile: string): Promise<string[]> {
+  if (!hasToc(traceFile)) {
+    throw new Error("Listing schemas requires a .trace bundle, not exported XML or events");
+  }
   const tocXml = await runXctraceExport(traceFile, ["--toc"]);
   const schemas = tocXml.match(/schema="([^"]+)"/g) ?? [];
   return schemas.map(s => s.replace(/schema="|"/g, ""));
 }
+
+// The process a recording launched, from the TOC's <target>
+export interface LaunchedProcess {
+  pid: number;
+  name?: string;
+  // How it ended, when the recording saw it end: the exit status, or the
+  // signal that killed it
+  status?: number;
+  signal?: number;
+}
+
+// The signal in a termination reason such as "signal(SIGSEGV)" or "signal 11"
+function parseTerminationSignal(reason: string): number | undefined {
+  const name = reason.match(/\bSIG[A-Z0-9]+\b/)?.[0];
+  if (name) {
+    const entry = Object.entries(SIGNAL_NAMES).find(([, sigName]) => sigName === name);
+    if (entry) return Number(entry[0]);
+  }
+  const num = reason.match(/signal\D*(\d+)/i)?.[1];
+  return num !== undefined ? Number(num) : undefined;
+}
+
+// Read the launched process from a .trace bundle's TOC, e.g.
+// <process type="launched" return-exit-status="0" termination-reason="exit(0)"
+// name="ls" pid="52313"/>. The status attributes are missing when the recording
+// stopped first. Attached recordings, exported XML and saved events have none.
+export async function readLaunchedProcess(traceFile: string): Promise<LaunchedProcess | undefined> {
+  if (!hasToc(traceFile)) return undefined;
+  const tocXml = await runXctraceExport(traceFile, ["--toc"]);
+  const element = tocXml.match(/<process\b[^>]*\btype="launched"[^>]*>/)?.[0];
+  if (!element) return undefined;
+
+  const attrs: Record<string, string> = {};
+  for (const [, name, value] of element.matchAll(/([\w-]+)="([^"]*)"/g)) {
+    attrs[name!] = value!;
+  }
+  const pid = Number(attrs.pid);
+  if (!Number.isInteger(pid) || pid <= 0) return undefined;
+
+  const signal = parseTerminationSignal(attrs["termination-reason"] ?? "");
+  if (signal !== undefined) return { pid, name: attrs.name, signal };
+  const status = /^-?\d+$/.test(attrs["return-exit-status"] ?? "") ? Number(attrs["return-exit-status"]) & 0xff : undefined;
+  return { pid, name: attrs.name, status };
+}
+
+// Wall-clock time the recording started, from the TOC's <start-date>.
+// Exported XML and saved events carry no TOC, so there is no start date for them.
+export async function readTraceStartDate(traceFile: string): Promise<Date | undefined> {
+  if (!hasToc(traceFile)) return undefined;
+  const tocXml = await runXctraceExport(traceFile, ["--toc"]);
+  const match = tocXml.match(/<start-date>([^<]+)<\/start-date>/);
+  if (!match) return undefined;
+  const date = new Date(match[1]!);
+  return isNaN(date.getTime()) ? undefined : date;
+}
@@ -0,0 +1,193 @@
+import type { TraceEvent } from "./exporter";
+import { fdReturnSyscalls, isErrorEvent } from "./formatter";
+import { formatSocketDomain } from "./syscalls";
+import { formatSeconds } from "./time";
+
+export interface FdInfo {
+  pid: number;
+  fd: number;
+  // What produced the fd, e.g. "open@0.262" or "socket AF_INET"
+  label: string;
+  process?: string;
+  closed: boolean;
+  closedAt?: string;
+}
+
+export interface FdProblem {
+  pid: number;
+  fd: number;
+  process?: string;
+  // Description of the problem, e.g. "read at 0.300 after close at 0.280"
+  message: string;
+}
+
+export interface FdReport {
+  leaked: FdInfo[];
+  problems: FdProblem[];
+}
+
+const closeSyscalls = new Set([
+  "close", "close_nocancel", "sys_close", "sys_close_nocancel", "guarded_close_np",
+]);
+const dupSyscalls = new Set(["dup", "sys_dup", "dup2"]);
+const fcntlSyscalls = new Set(["fcntl", "sys_fcntl", "fcntl_nocancel"]);
+const forkSyscalls = new Set(["fork", "vfork"]);
+
+// fcntl commands that return a new fd: F_DUPFD and F_DUPFD_CLOEXEC (what libc
+// and most runtimes use)
+const fcntlDupCmds = new Set([0, 67]);
+
+// Decoders that take an fd as their first argument
+const fdArgPattern = /^(read|write|pread|pwrite|readv|writev|preadv|pwritev|fstat|fstat64|fstatfs|fstatfs64|fsync|fdatasync|ftruncate|lseek|ioctl|fcntl|sys_fcntl|connect|bind|listen|accept|sendto|recvfrom|sendmsg|recvmsg|setsockopt|getsockopt|shutdown|getdirentries64|fchdir|fchmod|fchown|flock)(_nocancel)?$/;
+
+function parseNum(s: string | undefined): number | undefined {
+  if (!s) return undefined;
+  const val = parseInt(s, s.startsWith("0x") ? 16 : 10);
+  return isNaN(val) ? undefined : val;
+}
+
+function timeOf(event: TraceEvent): string {
+  return formatSeconds(event.startNs, 3);
+}
+
+export interface FdTracker {
+  // Label for an fd of a process as of the last observed event
+  label(pid: number | undefined, fd: number): string | undefined;
+  // Update the fd tables with an event (call after formatting it)
+  observe(event: TraceEvent): void;
+  report(): FdReport;
+}
+
+// Follow fds from the syscall that produced them through dup/dup2/fcntl
+// (F_DUPFD, F_DUPFD_CLOEXEC)/close, per process. Only fds created during the
+// trace are known; inherited ones (stdin/stdout/stderr) are left unlabelled.
+export function createFdTracker(): FdTracker {
+  const tables = new Map<number, Map<number, FdInfo>>();
+  const all: FdInfo[] = [];
+  const problems: FdProblem[] = [];
+
+  function table(pid: number): Map<number, FdInfo> {
+    let t = tables.get(pid);
+    if (!t) {
+      t = new Map();
+      tables.set(pid, t);
+    }
+    return t;
+  }
+
+  function open(event: TraceEvent, fd: number, label: string): void {
+    const pid = event.pid!;
+    const info: FdInfo = { pid, fd, label, process: event.process, closed: false };
+    table(pid).set(fd, info);
+    all.push(info);
+  }
+
+  function checkUse(event: TraceEvent): void {
+    if (!fdArgPattern.test(event.syscall)) return;
+    const fd = parseNum(event.args?.[0]);
+    if (fd === undefined) return;
+
+    const info = table(event.pid!).get(fd);
+    if (info?.closed) {
+      problems.push({
+        pid: info.pid,
+        fd,
+        process: event.process,
+        message: `${event.syscall} at ${timeOf(event)} after close at ${info.closedAt} (${info.label})`,
+      });
+    }
+  }
+
+  return {
+    label(pid, fd) {
+      if (pid === undefined) return undefined;
+      const info = tables.get(pid)?.get(fd);
+      if (!info) return undefined;
+      return info.closed ? `closed ${info.label}` : info.label;
+    },
+
+    observe(event) {
+      if (event.pid === undefined) return;
+      checkUse(event);
+      if (isErrorEvent(event)) return;
+
+      const pid = event.pid;
+      const result = parseNum(event.result);
+      const t = table(pid);
+
+      if (closeSyscalls.has(event.syscall)) {
+        const fd = parseNum(event.args?.[0]);
+        const info = fd !== undefined ? t.get(fd) : undefined;
+        if (info?.closed) {
+          problems.push({
+            pid,
+            fd: fd!,
+            process: event.process,
+            message: `closed again at ${timeOf(event)} (first closed at ${info.closedAt}, ${info.label})`,
+          });
+        } else if (info) {
+          info.closed = true;
+          info.closedAt = timeOf(event);
+        }
+        return;
+      }
+
+      const isDup = dupSyscalls.has(event.syscall) ||
+        (fcntlSyscalls.has(event.syscall) && fcntlDupCmds.has(parseNum(event.args?.[1]) ?? -1));
+      if (isDup && result !== undefined) {
+        const source = t.get(parseNum(event.args?.[0]) ?? -1);
+        // dup2 silently closes whatever the target fd was
+        const replaced = t.get(result);
+        if (replaced && !replaced.closed) {
+          replaced.closed = true;
+          replaced.closedAt = timeOf(event);
+        }
+        const origin = source ? source.label : `fd ${event.args?.[0]}`;
+        open(event, result, `${origin} ${event.syscall}@${timeOf(event)}`);
+        return;
+      }
+
+      if (fdReturnSyscalls.has(event.syscall) && result !== undefined && result >= 0) {
+        const label = event.syscall === "socket"
+          ? `socket ${formatSocketDomain(parseNum(event.args?.[0]) ?? -1)}`
+          : `${event.syscall}@${timeOf(event)}`;
+        open(event, result, label);
+        return;
+      }
+
+      // Children inherit the parent's open fds
+      if (forkSyscalls.has(event.syscall) && result !== undefined && result > 0 && result !== pid) {
+        // Not added to the report: the child never opened them
+        const child = table(result);
+        for (const [fd, info] of t) {
+          if (!info.closed) child.set(fd, { ...info, pid: result });
+        }
+      }
+    },
+
+    report() {
+      return {
+        leaked: all.filter((info) => !info.closed),
+        problems,
+      };
+    },
+  };
+}
+
+export function formatFdReport(report: FdReport): string {
+  const lines = ["File descriptor report:"];
+
+  lines.push(`  Never closed (${report.leaked.length}):`);
+  for (const info of report.leaked) {
+    const proc = info.process?.split(" ")[0] ?? "?";
+    lines.push(`    ${proc}/${info.pid} <fd:${info.fd}> ${info.label}`);
+  }
+
+  lines.push(`  Used after close (${report.problems.length}):`);
+  for (const problem of report.problems) {
+    const proc = problem.process?.split(" ")[0] ?? "?";
+    lines.push(`    ${proc}/${problem.pid} <fd:${problem.fd}> ${problem.message}`);
+  }
+
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,156 @@
+import type { TraceEvent } from "./exporter";
+import { isErrorEvent } from "./formatter";
+import { SYSCALL_CLASSES, SYSCALL_CLASS_ALIASES, ERRNO_NAMES, normalizeSyscallName } from "./syscalls";
+
+export interface SyscallFilter {
+  // Syscalls to keep; undefined keeps everything not excluded
+  include?: Set<string>;
+  exclude: Set<string>;
+}
+
+// Expand a single filter item ("open", "%file", "file") into syscall names
+function expandItem(item: string): string[] {
+  const className = item.startsWith("%") ? item.slice(1) : item;
+  const resolved = SYSCALL_CLASS_ALIASES[className] ?? className;
+  const members = SYSCALL_CLASSES[resolved];
+
+  if (members) return members;
+  if (item.startsWith("%")) {
+    const known = Object.keys(SYSCALL_CLASSES).map((n) => `%${n}`).join(", ");
+    throw new Error(`Unknown syscall class: ${item} (expected one of ${known})`);
+  }
+  return [normalizeSyscallName(item)];
+}
+
+// Parse an strace-style trace expression such as "%file,!stat64" or
+// "open,close". Negated items are removed from the result; if only negated
+// items are given, every other syscall is kept.
+export function parseTraceExpression(expr: string): SyscallFilter {
+  const filter: SyscallFilter = { exclude: new Set() };
+
+  for (const raw of expr.split(",")) {
+    const item = raw.trim();
+    if (!item) continue;
+
+    if (item === "all") {
+      filter.include = undefined;
+      continue;
+    }
+    if (item === "none") {
+      filter.include = new Set();
+      continue;
+    }
+
+    if (item.startsWith("!")) {
+      for (const name of expandItem(item.slice(1))) {
+        filter.exclude.add(name);
+      }
+    } else {
+      filter.include ??= new Set();
+      for (const name of expandItem(item)) {
+        filter.include.add(name);
+      }
+    }
+  }
+
+  return filter;
+}
+
+export function matchesSyscall(filter: SyscallFilter, syscall: string): boolean {
+  const name = normalizeSyscallName(syscall);
+  if (filter.exclude.has(name)) return false;
+  return !filter.include || filter.include.has(name);
+}
+
+// Outcomes to keep, as "successful" or an errno name ("ENOENT")
+export interface StatusFilter {
+  // Outcomes to keep; undefined keeps everything not excluded
+  include?: Set<string>;
+  exclude: Set<string>;
+}
+
+const ALL_ERRNOS = Object.values(ERRNO_NAMES);
+
+// Expand a single status item ("successful", "failed", "ENOENT")
+function expandStatus(item: string): string[] {
+  if (item === "successful") return ["successful"];
+  if (item === "failed") return ALL_ERRNOS;
+
+  const name = item.toUpperCase();
+  if (ALL_ERRNOS.includes(name)) return [name];
+  throw new Error(`Unknown status: ${item} (expected successful, failed or an errno name such as ENOENT)`);
+}
+
+// Parse an strace-style status expression such as "failed", "!ENOENT" or
+// "successful,EAGAIN", with the same negation rules as trace expressions
+export function parseStatusExpression(expr: string): StatusFilter {
+  const filter: StatusFilter = { exclude: new Set() };
+
+  for (const raw of expr.split(",")) {
+    const item = raw.trim();
+    if (!item) continue;
+
+    if (item === "all") {
+      filter.include = undefined;
+      continue;
+    }
+    if (item === "none") {
+      filter.include = new Set();
+      continue;
+    }
+
+    if (item.startsWith("!")) {
+      for (const name of expandStatus(item.slice(1))) {
+        filter.exclude.add(name);
+      }
+    } else {
+      filter.include ??= new Set();
+      for (const name of expandStatus(item)) {
+        filter.include.add(name);
+      }
+    }
+  }
+
+  return filter;
+}
+
+export function matchesStatus(filter: StatusFilter, event: TraceEvent): boolean {
+  const status = isErrorEvent(event) ? event.errnoName! : "successful";
+  if (filter.exclude.has(status)) return false;
+  return !filter.include || filter.include.has(status);
+}
+
+// Threads to keep, by tid or by thread name / dispatch queue label
+export interface ThreadFilter {
+  tids: Set<number>;
+  names: Set<string>;
+}
+
+// Parse a comma-separated list of tids (hex "0x1f2a" or decimal) and names
+export function parseThreadExpression(expr: string): ThreadFilter {
+  const filter: ThreadFilter = { tids: new Set(), names: new Set() };
+
+  for (const raw of expr.split(",")) {
+    const item = raw.trim();
+    if (!item) continue;
+
+    if (/^0x[0-9a-f]+$/i.test(item)) {
+      filter.tids.add(parseInt(item, 16));
+    } else if (/^\d+$/.test(item)) {
+      filter.tids.add(parseInt(item, 10));
+    } else {
+      filter.names.add(item);
+    }
+  }
+
+  return filter;
+}
+
+export function matchesThread(filter: ThreadFilter, event: Pick<TraceEvent, "tid" | "threadName">): boolean {
+  if (event.tid !== undefined && filter.tids.has(event.tid)) return true;
+  return event.threadName !== undefined && filter.names.has(event.threadName);
+}
+
+export function filterEvents(events: TraceEvent[], filter: SyscallFilter): TraceEvent[] {
+  return events.filter((event) => matchesSyscall(filter, event.syscall));
+}
@@ -1,5 +1,13 @@
-import type { TraceEvent } from "./exporter";
-import { formatOpenFlags, formatProtFlags, formatMapFlags, formatFcntlCmd } from "./syscalls";
+import type { IncludeTable, TableEvent, TraceEvent } from "./exporter";
+import type { ProcessExit } from "./exit-status";
+import {
+  formatOpenFlags, formatProtFlags, formatMapFlags, formatFcntlCmd,
+  formatSocketDomain, formatSocketType, formatSocketProtocol,
+  formatSockoptLevel, formatSockoptName, formatMsgFlags, formatShutdownHow,
+  formatKernReturn, formatMachMsgOptions, formatVmFlags, formatSignal,
+  ERRNO_NAMES, SYSCALL_CLASSES, normalizeSyscallName,
+} from "./syscalls";
+import { formatSeconds, formatDuration } from "./time";
 
 // ANSI color codes
 const c = {
@@ -18,6 +26,20 @@ const c = {
 
 export interface FormatOptions {
   color?: boolean;
+  // Prefix each line with "[pid N]" like strace -f
+  pidPrefix?: boolean;
+  // Describe an fd argument of this event, e.g. "open@0.262" (see fd-tracker)
+  fdLabel?: (fd: number) => string | undefined;
+  // Format the event's start time (see createTimestampFormatter); defaults to
+  // seconds since the trace started, to the millisecond
+  timestamp?: (ns: number) => string;
+  // Columns to show, in order (default DEFAULT_COLUMNS)
+  columns?: EventField[];
+  // Template with {field} placeholders, used instead of columns
+  template?: string;
+  // Column widths seen so far; share one map between calls so columns stay
+  // aligned as long values widen them
+  widths?: Map<EventField, number>;
 }
 
 function pad(s: string, len: number, left = true): string {
@@ -54,6 +76,29 @@ function int(s: string | undefined): string {
 // Syscall argument decoders
 type ArgDecoder = (args: string[], result?: string) => string;
 
+// Socket I/O, shared with the _nocancel variants
+function sendtoDecoder(args: string[]): string {
+  const flags = parseHex(args[3] || "0");
+  return `(${fd(args[0])}, ${args[1]}, ${int(args[2])}, ${formatMsgFlags(flags)}, ${args[4]}, ${int(args[5])})`;
+}
+
+function recvfromDecoder(args: string[]): string {
+  const flags = parseHex(args[3] || "0");
+  return `(${fd(args[0])}, ${args[1]}, ${int(args[2])}, ${formatMsgFlags(flags)}, ${args[4]}, ${args[5]})`;
+}
+
+function msgDecoder(args: string[]): string {
+  const flags = parseHex(args[2] || "0");
+  return `(${fd(args[0])}, ${args[1]}, ${formatMsgFlags(flags)})`;
+}
+
+// mach_msg(msg, option, send_size, rcv_size, rcv_name, timeout, notify)
+function machMsgDecoder(args: string[]): string {
+  const [msg, option, ...rest] = args;
+  const o = parseHex(option || "0");
+  return `(${[msg, formatMachMsgOptions(o), ...rest.map(int)].join(", ")})`;
+}
+
 const decoders: Record<string, ArgDecoder> = {
   // File operations
   open: (args) => {
@@ -131,19 +176,48 @@ const decoders: Record<string, ArgDecoder> = {
   ioctl: (args) => `(${fd(args[0])}, ${args[1]}, ${args[2] || "0"})`,
 
   // Socket
-  socket: (args) => `(${int(args[0])}, ${int(args[1])}, ${int(args[2])})`,
+  socket: (args) => {
+    const domain = parseHex(args[0] || "0");
+    const type = parseHex(args[1] || "0");
+    const protocol = parseHex(args[2] || "0");
+    return `(${formatSocketDomain(domain)}, ${formatSocketType(type)}, ${formatSocketProtocol(domain, protocol)})`;
+  },
+  socketpair: (args) => {
+    const domain = parseHex(args[0] || "0");
+    const type = parseHex(args[1] || "0");
+    const protocol = parseHex(args[2] || "0");
+    return `(${formatSocketDomain(domain)}, ${formatSocketType(type)}, ${formatSocketProtocol(domain, protocol)}, ${args[3]})`;
+  },
   connect: (args) => `(${fd(args[0])}, ${args[1]}, ${int(args[2])})`,
   bind: (args) => `(${fd(args[0])}, ${args[1]}, ${int(args[2])})`,
   listen: (args) => `(${fd(args[0])}, ${int(args[1])})`,
   accept: (args) => `(${fd(args[0])}, ${args[1]}, ${args[2]})`,
-  sendto: (args) => `(${fd(args[0])}, ${args[1]}, ${int(args[2])}, ${int(args[3])}, ${args[4]}, ${int(args[5])})`,
-  recvfrom: (args) => `(${fd(args[0])}, ${args[1]}, ${int(args[2])}, ${int(args[3])}, ${args[4]}, ${args[5]})`,
+  setsockopt: (args) => {
+    const level = parseHex(args[1] || "0");
+    const name = parseHex(args[2] || "0");
+    return `(${fd(args[0])}, ${formatSockoptLevel(level)}, ${formatSockoptName(level, name)}, ${args[3]}, ${int(args[4])})`;
+  },
+  getsockopt: (args) => {
+    const level = parseHex(args[1] || "0");
+    const name = parseHex(args[2] || "0");
+    return `(${fd(args[0])}, ${formatSockoptLevel(level)}, ${formatSockoptName(level, name)}, ${args[3]}, ${args[4]})`;
+  },
+  sendto: sendtoDecoder,
+  recvfrom: recvfromDecoder,
+  sendmsg: msgDecoder,
+  recvmsg: msgDecoder,
+  sendto_nocancel: sendtoDecoder,
+  recvfrom_nocancel: recvfromDecoder,
+  sendmsg_nocancel: msgDecoder,
+  recvmsg_nocancel: msgDecoder,
+  shutdown: (args) => `(${fd(args[0])}, ${formatShutdownHow(parseHex(args[1] || "0"))})`,
 
   // Process
   execve: (args) => `(${args[0]}, ${args[1]}, ${args[2]})`,
   fork: () => "()",
   vfork: () => "()",
   exit: (args) => `(${args[0] || "0"})`,
+  kill: (args) => `(${int(args[0])}, ${formatSignal(parseHex(args[1] || "0"))})`,
   wait4: (args) => `(${args[0]}, ${args[1]}, ${args[2]}, ${args[3]})`,
   getpid: () => "()",
   getppid: () => "()",
@@ -160,7 +234,7 @@ const decoders: Record<string, ArgDecoder> = {
   // Signals
   sigaction: (args) => `(${args[0]}, ${args[1]}, ${args[2]})`,
   sigprocmask: (args) => `(${args[0]}, ${args[1]}, ${args[2]})`,
-  __pthread_kill: (args) => `(${args[0]}, ${args[1]})`,
+  __pthread_kill: (args) => `(${args[0]}, ${formatSignal(parseHex(args[1] || "0"))})`,
 
   // kqueue
   kqueue: () => "()",
@@ -198,11 +272,26 @@ const decoders: Record<string, ArgDecoder> = {
   },
 
   // Mach traps
-  mach_msg_trap: (args) => `(${args[0]}, ${args[1]}, ${args[2]}, ${args[3]})`,
-  mach_msg: (args) => `(${args[0]}, ${args[1]}, ${args[2]}, ${args[3]})`,
-  mach_vm_map_trap: (args) => `(${args[0]}, ${args[1]}, ${args[2]}, ${args[3]})`,
-  mach_vm_allocate_trap: (args) => `(${args[0]}, ${args[1]}, ${args[2]}, ${args[3]})`,
-  mach_vm_deallocate_trap: (args) => `(${args[0]}, ${args[1]}, ${args[2]})`,
+  mach_msg_trap: machMsgDecoder,
+  mach_msg: machMsgDecoder,
+  mach_msg_overwrite_trap: machMsgDecoder,
+  mach_vm_map_trap: (args) => {
+    const [task, addr, size, mask, flags, prot] = args;
+    const f = parseHex(flags || "0");
+    const p = parseHex(prot || "0");
+    return `(${task}, ${addr}, ${int(size)}, ${mask}, ${formatVmFlags(f)}, ${formatProtFlags(p)})`;
+  },
+  mach_vm_allocate_trap: (args) => {
+    const [task, addr, size, flags] = args;
+    const f = parseHex(flags || "0");
+    return `(${task}, ${addr}, ${int(size)}, ${formatVmFlags(f)})`;
+  },
+  mach_vm_deallocate_trap: (args) => `(${args[0]}, ${args[1]}, ${int(args[2])})`,
+  mach_vm_protect_trap: (args) => {
+    const [task, addr, size, setMax, prot] = args;
+    const p = parseHex(prot || "0");
+    return `(${task}, ${addr}, ${int(size)}, ${int(setMax)}, ${formatProtFlags(p)})`;
+  },
   mach_port_deallocate_trap: (args) => `(${args[0]}, ${args[1]})`,
   task_self_trap: () => "()",
   host_self_trap: () => "()",
@@ -240,18 +329,33 @@ function defaultDecoder(args: string[]): string {
   return `(${args.join(", ")})`;
 }
 
-// Syscalls that return file descriptors
-const fdReturnSyscalls = new Set([
+// Syscalls that return a file descriptor. pipe and socketpair make two: pipe
+// returns the second in a register the trace doesn't record, and socketpair
+// returns 0 and writes both to memory.
+export const fdReturnSyscalls = new Set([
   "open", "openat", "open_nocancel", "openat_nocancel",
   "socket", "accept", "accept_nocancel",
   "dup", "dup2", "sys_dup",
   "kqueue", "shm_open", "sem_open",
-  "pipe", "socketpair",
   "guarded_open_np", "guarded_open_dprotected_np",
   "open_dprotected_np", "openbyid_np",
   "fileport_makefd",
 ]);
 
+// Mach traps return a kern_return_t, except these which return a port
+// name or a boolean
+const machTraps = new Set(SYSCALL_CLASSES.mach);
+const machValueReturnSyscalls = new Set([
+  "mach_reply_port", "thread_self_trap", "task_self_trap", "host_self_trap",
+  "mk_timer_create", "mk_timer_create_trap", "thread_get_special_reply_port",
+  "swtch", "swtch_pri",
+]);
+
+function returnsKernReturn(syscall: string): boolean {
+  const name = normalizeSyscallName(syscall);
+  return machTraps.has(name) && !machValueReturnSyscalls.has(name);
+}
+
 // Syscalls that return memory addresses
 const addrReturnSyscalls = new Set([
   "mmap", "mremap_encrypted", "shmat",
@@ -264,12 +368,12 @@ const byteCountReturnSyscalls = new Set([
   "pread_nocancel", "pwrite_nocancel",
   "readv", "writev", "readv_nocancel", "writev_nocancel",
   "sendto", "recvfrom", "sendmsg", "recvmsg",
-  "sendto_nocancel", "recvfrom_nocancel",
+  "sendto_nocancel", "recvfrom_nocancel", "sendmsg_nocancel", "recvmsg_nocancel",
   "getdirentries64", "getxattr", "fgetxattr", "listxattr",
 ]);
 
 // Format return value based on syscall type
-function formatResult(syscall: string, result: string, hasError: boolean): string {
+function formatResult(syscall: string, result: string, hasError: boolean, args: string[] = []): string {
   const val = parseHex(result);
 
   // Error returns - just show the value, not as fd
@@ -286,6 +390,15 @@ function formatResult(syscall: string, result: string, hasError: boolean): strin
     return result; // Keep as-is for errors
   }
 
+  // Sockets are labelled with their address family
+  if (syscall === "socket") {
+    return `<fd:${val} ${formatSocketDomain(parseHex(args[0] || "0"))}>`;
+  }
+
+  if (returnsKernReturn(syscall)) {
+    return formatKernReturn(val);
+  }
+
   if (fdReturnSyscalls.has(syscall)) {
     return `<fd:${val}>`;
   }
@@ -312,78 +425,333 @@ function formatResult(syscall: string, result: string, hasError: boolean): strin
   return String(val);
 }
 
-export function formatEvent(
-  event: TraceEvent,
-  options: FormatOptions = {}
-): string {
-  const useColor = options.color ?? process.stderr.isTTY;
+// Split a decoded argument list on its top-level ", ", leaving commas inside
+// quoted strings and brackets (e.g. a path or a struct) alone
+function splitArgs(inner: string): string[] {
+  const args: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let start = 0;
+
+  for (let i = 0; i < inner.length; i++) {
+    const ch = inner[i]!;
+    if (quoted) {
+      if (ch === "\\") i++;
+      else if (ch === '"') quoted = false;
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === "(" || ch === "[" || ch === "{") {
+      depth++;
+    } else if (ch === ")" || ch === "]" || ch === "}") {
+      depth = Math.max(0, depth - 1);
+    } else if (depth === 0 && ch === "," && inner[i + 1] === " ") {
+      args.push(inner.slice(start, i));
+      start = i + 2;
+      i++;
+    }
+  }
+  args.push(inner.slice(start));
+  return args;
+}
 
-  const col = useColor ? c : {
-    reset: "", bold: "", dim: "", red: "", green: "",
-    yellow: "", blue: "", magenta: "", cyan: "", white: "", gray: "",
-  };
+// Decode an event's raw arguments into display strings (no colors)
+export function decodeArgs(event: TraceEvent): string[] {
+  // Mach traps may be exported with their _kernelrpc_ prefix
+  const decoder = decoders[event.syscall] || decoders[normalizeSyscallName(event.syscall)] || defaultDecoder;
+  const decoded = decoder(event.args || [], event.result);
+  const inner = decoded.replace(/^\(/, "").replace(/\)$/, "");
+  return inner ? splitArgs(inner) : [];
+}
+
+// Format an event's return value the way formatEvent shows it
+export function formatReturnValue(event: TraceEvent): string | undefined {
+  if (!event.result) return undefined;
+  return formatResult(event.syscall, event.result, isErrorEvent(event), event.args);
+}
 
-  // Compact timestamp - just show seconds.milliseconds
-  let ts = event.timestamp || "";
-  const tsMatch = ts.match(/(\d+)\.(\d+)\.(\d+)$/);
-  if (tsMatch) {
-    ts = `${tsMatch[1]}.${tsMatch[2]}`;
+// Check whether an event failed. xctrace also attaches an errno to some
+// successful calls, as 0 ("success") or a value that is not a real errno.
+export function isErrorEvent(event: TraceEvent): boolean {
+  const code = event.errnoCode;
+  return code !== undefined && code > 0 && ERRNO_NAMES[code] !== undefined;
+}
+
+// Thread as its hex tid followed by its name or queue label, if any
+export function formatThread(event: Pick<TraceEvent, "tid" | "threadName">): string {
+  const tid = event.tid !== undefined ? `0x${event.tid.toString(16)}` : "?";
+  return event.threadName ? `${tid} ${event.threadName}` : tid;
+}
+
+// Fields available to --columns and --format-template
+export const EVENT_FIELDS = [
+  "ts", "dur", "proc", "name", "pid", "tid", "thread", "call", "syscall", "args", "result", "errno",
+] as const;
+
+export type EventField = typeof EVENT_FIELDS[number];
+
+// The classic layout: TIMESTAMP DURATION PROCESS/PID THREAD SYSCALL(args) = RESULT
+export const DEFAULT_COLUMNS: EventField[] = ["ts", "dur", "proc", "thread", "call", "result"];
+
+// Minimum column widths; numbers are right-aligned
+const MIN_WIDTHS: Partial<Record<EventField, number>> = { ts: 6, dur: 9, proc: 16, pid: 5, thread: 20 };
+const RIGHT_ALIGNED = new Set<EventField>(["ts", "dur", "pid"]);
+// Free-form text is never padded
+const UNPADDED = new Set<EventField>(["call", "args", "result"]);
+
+// Parse a --columns list such as "ts,dur,pid,tid,proc,call,result"
+export function parseColumns(spec: string): EventField[] {
+  const columns = spec.split(",").map((s) => s.trim()).filter(Boolean);
+  for (const column of columns) {
+    if (!EVENT_FIELDS.includes(column as EventField)) {
+      throw new Error(`Unknown column: ${column} (expected ${EVENT_FIELDS.join(", ")})`);
+    }
   }
+  if (columns.length === 0) throw new Error("No columns given");
+  return columns as EventField[];
+}
 
-  // Format duration - normalize to consistent width
-  let dur = "";
-  if (event.duration) {
-    dur = event.duration.replace(" ", "");
+// Check that a --format-template only references known fields
+export function parseTemplate(template: string): string {
+  for (const [, field] of template.matchAll(/\{(\w+)\}/g)) {
+    if (!EVENT_FIELDS.includes(field as EventField)) {
+      throw new Error(`Unknown template field: {${field}} (expected ${EVENT_FIELDS.map((f) => `{${f}}`).join(", ")})`);
+    }
   }
+  return template;
+}
+
+// Every field of an event, already colored
+function eventFields(event: TraceEvent, options: FormatOptions, col: typeof c): Record<EventField, string> {
+  const paint = (color: string, s: string) => (s && color ? `${color}${s}${col.reset}` : s);
+
+  // Seconds since the trace started, unless the caller picked another style
+  const ts = options.timestamp ? options.timestamp(event.startNs) : formatSeconds(event.startNs, 3);
+  const dur = event.durationNs !== undefined ? formatDuration(event.durationNs) : "";
 
   // Process info
-  const procName = event.process?.split(" ")[0]?.slice(0, 10) || "?";
+  const name = event.process?.split(" ")[0] || "?";
   const pid = event.pid || 0;
-  const proc = `${procName}/${pid}`;
 
   // Decode args based on syscall type
-  const decoder = decoders[event.syscall] || defaultDecoder;
-  const args = event.args || [];
-  let decodedArgs = decoder(args, event.result);
+  let args = decodeArgs(event).join(", ");
+
+  // Annotate fds with what produced them
+  const fdLabel = options.fdLabel;
+  if (fdLabel) {
+    args = args.replace(/<fd:(\d+)>/g, (match, n: string) => {
+      const label = fdLabel(Number(n));
+      return label ? `<fd:${n} ${label}>` : match;
+    });
+  }
 
   // Dim the punctuation (parentheses and commas)
-  decodedArgs = decodedArgs
-    .replace(/^\(/, `${col.dim}(${col.reset}`)
-    .replace(/\)$/, `${col.dim})${col.reset}`)
-    .replace(/, /g, `${col.dim}, ${col.reset}`);
-
-  // Check if this is an error
-  const errno = event.errno;
-  const isRealError = errno &&
-    !errno.includes("success") &&
-    !errno.includes("unknown error code") &&
-    !errno.includes("reachable") &&
-    !errno.includes("Operation not supported");
+  const coloredArgs = args.replace(/, /g, `${col.dim}, ${col.reset}`);
+  const isRealError = isErrorEvent(event);
+
+  // Syscall name: bold red for errors, just bold otherwise
+  const syscall = isRealError
+    ? `${col.bold}${col.red}${event.syscall}${col.reset}`
+    : `${col.bold}${event.syscall}${col.reset}`;
 
   // Result
   let result = "";
-  if (event.result) {
-    const formattedVal = formatResult(event.syscall, event.result, isRealError);
+  const formattedVal = formatReturnValue(event);
+  if (formattedVal !== undefined) {
+    result = isRealError
+      ? paint(col.red, `${formattedVal} ${event.errnoName} (${event.errno})`)
+      : paint(col.dim, formattedVal);
+  }
 
-    if (isRealError) {
-      result = `${col.red}= ${formattedVal} ${errno}${col.reset}`;
-    } else {
-      result = `${col.dim}= ${formattedVal}${col.reset}`;
-    }
+  return {
+    ts: paint(col.gray, ts),
+    dur: paint(col.yellow, dur),
+    proc: paint(col.cyan, `${name}/${pid}`),
+    name: paint(col.cyan, name),
+    pid: paint(col.cyan, String(pid)),
+    tid: paint(col.blue, event.tid !== undefined ? `0x${event.tid.toString(16)}` : "?"),
+    thread: paint(col.blue, formatThread(event)),
+    call: `${syscall}${col.dim}(${col.reset}${coloredArgs}${col.dim})${col.reset}`,
+    syscall,
+    args: coloredArgs,
+    result,
+    errno: isRealError ? paint(col.red, event.errnoName ?? "") : "",
+  };
+}
+
+// Length of a field as displayed, without color codes
+function visibleLength(s: string): number {
+  return s.replace(/\x1b\[[0-9;]*m/g, "").length;
+}
+
+function colorsFor(options: FormatOptions): typeof c {
+  const useColor = options.color ?? process.stderr.isTTY;
+  return useColor ? c : {
+    reset: "", bold: "", dim: "", red: "", green: "",
+    yellow: "", blue: "", magenta: "", cyan: "", white: "", gray: "",
+  };
+}
+
+// Lay out an event's fields as columns or through the template
+function formatLine(
+  fields: Record<EventField, string>,
+  pid: number,
+  options: FormatOptions,
+  col: typeof c
+): string {
+  let line: string;
+  if (options.template !== undefined) {
+    line = options.template.replace(/\{(\w+)\}/g, (match, field: string) =>
+      fields[field as EventField] ?? match
+    ).trimEnd();
+  } else {
+    const columns = options.columns ?? DEFAULT_COLUMNS;
+    const widths = options.widths ?? new Map<EventField, number>();
+    const cells: string[] = [];
+
+    columns.forEach((column, i) => {
+      let value = fields[column];
+      // "= " takes the result's color
+      if (column === "result" && value) value = value.replace(/^(\x1b\[[0-9;]*m)?/, "$1= ");
+      // No timestamp column with strace's "none" style
+      if (column === "ts" && !value) return;
+
+      // Pad every column but the last, growing widths to fit long values
+      if (i < columns.length - 1 && !UNPADDED.has(column)) {
+        const len = visibleLength(value);
+        const width = Math.max(widths.get(column) ?? MIN_WIDTHS[column] ?? 0, len);
+        widths.set(column, width);
+        const spaces = " ".repeat(width - len);
+        value = RIGHT_ALIGNED.has(column) ? spaces + value : value + spaces;
+      }
+      cells.push(value);
+    });
+
+    line = cells.join(" ").trimEnd();
   }
 
-  // Aligned format
-  const tsCol = `${col.gray}${pad(ts, 6)}${col.reset}`;
-  const durCol = `${col.yellow}${pad(dur, 9)}${col.reset}`;
-  const procCol = `${col.cyan}${pad(proc, 16, false)}${col.reset}`;
+  return options.pidPrefix ? `${col.cyan}[pid ${pad(String(pid), 5)}]${col.reset} ${line}` : line;
+}
 
-  // Syscall name: bold red for errors, just bold otherwise
-  const syscallCol = isRealError
-    ? `${col.bold}${col.red}${event.syscall}${col.reset}`
-    : `${col.bold}${event.syscall}${col.reset}`;
-  const callCol = `${syscallCol}${decodedArgs}`;
+export function formatEvent(
+  event: TraceEvent,
+  options: FormatOptions = {}
+): string {
+  const col = colorsFor(options);
+  return formatLine(eventFields(event, options, col), event.pid || 0, options, col);
+}
+
+// The first of several possible columns a table row has
+function pick(fields: Record<string, string>, ...names: string[]): string | undefined {
+  for (const name of names) {
+    if (fields[name]) return fields[name];
+  }
+  return undefined;
+}
+
+// Every column of a row whose layout is unknown
+function allFields(fields: Record<string, string>): string {
+  return Object.values(fields).join(" ");
+}
+
+// How each --include table reads next to the syscalls
+const TABLE_FORMATTERS: Record<IncludeTable, (fields: Record<string, string>) => string> = {
+  // "Page In 0x10a4c8000 16 KiB"
+  "vm-faults": (fields) => {
+    const op = pick(fields, "vm-op", "vm-fault-type", "event-type");
+    if (!op) return allFields(fields);
+    return [op, pick(fields, "address", "vm-address"), pick(fields, "size-in-bytes", "vm-size")]
+      .filter(Boolean).join(" ");
+  },
+  // "Preempted (cpu 3, priority 31)"
+  "thread-state": (fields) => {
+    const state = pick(fields, "thread-state", "state");
+    if (!state) return allFields(fields);
+    const cpu = pick(fields, "core", "cpu");
+    const priority = pick(fields, "sched-priority", "priority");
+    const details = [cpu && `cpu ${cpu}`, priority && `priority ${priority}`].filter(Boolean);
+    const note = pick(fields, "narrative", "note");
+    return [details.length ? `${state} (${details.join(", ")})` : state, note].filter(Boolean).join(": ");
+  },
+  // "switch on cpu 2 from 0x1f40"
+  "context-switch": (fields) => {
+    const core = pick(fields, "core", "cpu");
+    if (!core) return allFields(fields);
+    const from = pick(fields, "previous-thread", "thread-out", "from-thread");
+    return [`switch on cpu ${core}`, from && `from ${from}`].filter(Boolean).join(" ");
+  },
+};
+
+// Describe a row of an --include table, e.g. "vm-faults: Page In 0x10a4c8000 16 KiB"
+export function describeTableEvent(event: TableEvent): string {
+  return `${event.table}: ${TABLE_FORMATTERS[event.table](event.fields)}`;
+}
+
+// Format a row of an --include table in the same columns as the syscalls,
+// like strace's signal lines: "--- thread-state: Preempted (cpu 3) ---"
+export function formatTableEvent(
+  event: TableEvent,
+  options: FormatOptions = {}
+): string {
+  const col = colorsFor(options);
+  const paint = (color: string, s: string) => (s && color ? `${color}${s}${col.reset}` : s);
+
+  const ts = options.timestamp ? options.timestamp(event.startNs) : formatSeconds(event.startNs, 3);
+  const dur = event.durationNs !== undefined ? formatDuration(event.durationNs) : "";
+  const name = event.process?.split(" ")[0] || "?";
+  const pid = event.pid || 0;
+  const description = TABLE_FORMATTERS[event.table](event.fields);
+
+  const fields: Record<EventField, string> = {
+    ts: paint(col.gray, ts),
+    dur: paint(col.yellow, dur),
+    proc: paint(col.cyan, `${name}/${pid}`),
+    name: paint(col.cyan, name),
+    pid: paint(col.cyan, String(pid)),
+    tid: paint(col.blue, event.tid !== undefined ? `0x${event.tid.toString(16)}` : "?"),
+    thread: paint(col.blue, formatThread(event)),
+    call: paint(col.magenta, `--- ${describeTableEvent(event)} ---`),
+    syscall: paint(col.magenta, event.table),
+    args: description,
+    result: "",
+    errno: "",
+  };
+
+  return formatLine(fields, pid, options, col);
+}
+
+// Format a process's exit in the same columns as the syscalls, at the end of
+// its last event: "+++ exited with 1 +++" in the call column
+export function formatExitEvent(
+  exit: ProcessExit,
+  options: FormatOptions = {}
+): string {
+  const col = colorsFor(options);
+  const paint = (color: string, s: string) => (s && color ? `${color}${s}${col.reset}` : s);
+
+  const { event } = exit;
+  const endNs = event.endNs ?? event.startNs;
+  const ts = options.timestamp ? options.timestamp(endNs) : formatSeconds(endNs, 3);
+  const name = exit.process?.split(" ")[0] || "?";
+  const what = exit.signal !== undefined ? `killed by ${formatSignal(exit.signal)}` : `exited with ${exit.status}`;
+  const failed = exit.signal !== undefined || exit.status !== 0;
+  const color = failed ? `${col.bold}${col.red}` : col.dim;
+
+  const fields: Record<EventField, string> = {
+    ts: paint(col.gray, ts),
+    dur: "",
+    proc: paint(col.cyan, `${name}/${exit.pid}`),
+    name: paint(col.cyan, name),
+    pid: paint(col.cyan, String(exit.pid)),
+    tid: paint(col.blue, event.tid !== undefined ? `0x${event.tid.toString(16)}` : "?"),
+    thread: paint(col.blue, formatThread(event)),
+    call: paint(color, `+++ ${what} +++`),
+    syscall: paint(color, exit.signal !== undefined ? "killed" : "exited"),
+    args: what,
+    result: "",
+    errno: "",
+  };
 
-  return `${tsCol} ${durCol} ${procCol} ${callCol} ${result}`.trimEnd();
+  return formatLine(fields, exit.pid, options, col);
 }
 
 export function formatEvents(
@@ -0,0 +1,389 @@
+import type { TraceEvent } from "./exporter";
+import { decodeArgs, formatReturnValue, formatThread, isErrorEvent } from "./formatter";
+import { SYSCALL_CLASSES, SYSCALL_CLASS_ALIASES } from "./syscalls";
+
+export interface HtmlReportOptions {
+  // Page title, e.g. the traced command
+  title?: string;
+}
+
+// An event as embedded in the page; short keys keep big traces small
+interface HtmlEvent {
+  t: number;           // Start, ns since the trace started
+  d: number | null;    // Duration in ns
+  s: string;           // Syscall
+  a: string;           // Decoded args, as in the text output
+  r: string | null;    // Formatted result
+  e: string | null;    // errno name, for failed calls
+  m: string | null;    // errno message
+  p: number;           // pid
+  n: string;           // Process name
+  i: number;           // tid
+  h: string;           // Thread, as "0x1f2a Main Thread"
+  g: string;           // Raw signature
+  w: string[];         // Raw args
+}
+
+function toHtmlEvent(event: TraceEvent): HtmlEvent {
+  const error = isErrorEvent(event);
+  return {
+    t: event.startNs,
+    d: event.durationNs ?? null,
+    s: event.syscall,
+    a: decodeArgs(event).join(", "),
+    r: formatReturnValue(event) ?? null,
+    e: error ? event.errnoName ?? null : null,
+    m: error ? event.errno ?? null : null,
+    p: event.pid ?? 0,
+    n: event.process?.split(" ")[0] || "?",
+    i: event.tid ?? 0,
+    h: formatThread(event),
+    g: event.signature,
+    w: event.args ?? [],
+  };
+}
+
+// JSON that can sit inside a <script> element
+function scriptJson(value: unknown): string {
+  return JSON.stringify(value).replace(/</g, "\\u003c");
+}
+
+function escapeHtml(s: string): string {
+  return s.replace(/[&<>"]/g, (ch) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;" })[ch]!);
+}
+
+const STYLE = `
+body { font: 13px -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; margin: 0; color: #222; }
+header { padding: 12px 20px; background: #1f2430; color: #eee; }
+header h1 { font-size: 16px; margin: 0 0 4px; }
+header .meta { color: #aab; }
+section { padding: 8px 20px; }
+h2 { font-size: 14px; margin: 12px 0 6px; }
+table { border-collapse: collapse; font: 12px ui-monospace, Menlo, Consolas, monospace; }
+th, td { padding: 2px 8px; text-align: left; white-space: nowrap; }
+th { border-bottom: 1px solid #ccc; cursor: default; }
+td.num, th.num { text-align: right; }
+tr:hover td { background: #f3f5fa; }
+.err { color: #c0262d; }
+.dim { color: #888; }
+.call { white-space: pre; }
+a.pick { color: inherit; cursor: pointer; text-decoration: underline dotted; }
+#controls { position: sticky; top: 0; background: #fff; border-bottom: 1px solid #ddd; padding: 8px 20px; z-index: 1; }
+#controls input[type=text] { font: 12px ui-monospace, Menlo, Consolas, monospace; width: 360px; padding: 3px 6px; }
+#controls label { margin-left: 12px; }
+#status { margin-left: 12px; color: #888; }
+#timeline { display: block; }
+#tooltip { position: fixed; pointer-events: none; background: #1f2430; color: #eee; padding: 4px 8px;
+  font: 12px ui-monospace, Menlo, Consolas, monospace; border-radius: 3px; display: none; white-space: pre; }
+tr.detail td { white-space: pre-wrap; color: #555; background: #fafafa; }
+`;
+
+// Rendering, filtering and the timeline, in the browser. Plain ES5-style
+// code with no template literals so it sits inside this file's template.
+const SCRIPT = `
+var events = JSON.parse(document.getElementById("events").textContent);
+var classes = JSON.parse(document.getElementById("classes").textContent);
+var PAGE = 1000;
+var shown = PAGE;
+var filtered = events;
+
+function el(tag, attrs, children) {
+  var node = document.createElement(tag);
+  for (var key in attrs || {}) {
+    if (key === "text") node.textContent = attrs[key];
+    else if (key === "onclick") node.onclick = attrs[key];
+    else node.setAttribute(key, attrs[key]);
+  }
+  (children || []).forEach(function (child) { node.appendChild(child); });
+  return node;
+}
+
+function seconds(ns, digits) { return (ns / 1e9).toFixed(digits === undefined ? 3 : digits); }
+
+function duration(ns) {
+  if (ns === null || ns === undefined) return "";
+  if (ns < 1e3) return Math.round(ns) + "ns";
+  if (ns < 1e6) return (ns / 1e3).toFixed(ns < 1e4 ? 2 : ns < 1e5 ? 1 : 0) + "\\u00b5s";
+  if (ns < 1e9) return (ns / 1e6).toFixed(ns < 1e7 ? 2 : ns < 1e8 ? 1 : 0) + "ms";
+  return (ns / 1e9).toFixed(2) + "s";
+}
+
+function result(e) {
+  if (e.r === null) return "";
+  return "= " + e.r + (e.e ? " " + e.e + " (" + e.m + ")" : "");
+}
+
+// Same as normalizeSyscallName: "close" also matches sys_close_nocancel
+function normalize(name) {
+  return name.replace(/^sys_/, "").replace(/^_kernelrpc_/, "").replace(/_nocancel$/, "");
+}
+
+// Filter syntax: syscall names or %class, pid=, tid=, errno= (a name or "failed")
+function parseFilter(text) {
+  var f = { syscalls: null, pids: null, tids: null, errnos: null, failed: false };
+  text.trim().split(/\\s+/).filter(Boolean).forEach(function (word) {
+    var eq = word.indexOf("=");
+    var key = eq < 0 ? "trace" : word.slice(0, eq);
+    var values = (eq < 0 ? word : word.slice(eq + 1)).split(",").filter(Boolean);
+    if (key === "pid") f.pids = values.map(Number);
+    else if (key === "tid") f.tids = values.map(function (v) { return /^0x/i.test(v) ? parseInt(v, 16) : Number(v); });
+    else if (key === "errno") {
+      f.errnos = values.map(function (v) { return v.toUpperCase(); });
+      f.failed = f.errnos.indexOf("FAILED") >= 0;
+    } else {
+      f.syscalls = f.syscalls || [];
+      values.forEach(function (v) {
+        var name = v.replace(/^%/, "");
+        f.syscalls = f.syscalls.concat(classes[name] || [normalize(v)]);
+      });
+    }
+  });
+  return f;
+}
+
+function matches(f, query, errorsOnly, e) {
+  if (f.syscalls && f.syscalls.indexOf(normalize(e.s)) < 0) return false;
+  if (f.pids && f.pids.indexOf(e.p) < 0) return false;
+  if (f.tids && f.tids.indexOf(e.i) < 0) return false;
+  if (f.errnos && !(e.e && (f.failed || f.errnos.indexOf(e.e) >= 0))) return false;
+  if (errorsOnly && !e.e) return false;
+  if (query && (e.s + "(" + e.a + ") " + result(e) + " " + e.n + " " + e.h).toLowerCase().indexOf(query) < 0) return false;
+  return true;
+}
+
+function applyFilter() {
+  var f = parseFilter(document.getElementById("filter").value);
+  var query = document.getElementById("search").value.toLowerCase();
+  var errorsOnly = document.getElementById("errors-only").checked;
+  filtered = events.filter(function (e) { return matches(f, query, errorsOnly, e); });
+  shown = PAGE;
+  render();
+}
+
+function setFilter(text) {
+  document.getElementById("filter").value = text;
+  applyFilter();
+  document.getElementById("events-section").scrollIntoView();
+}
+
+function renderSummary() {
+  var stats = {};
+  filtered.forEach(function (e) {
+    var s = stats[e.s] || (stats[e.s] = { name: e.s, calls: 0, errors: 0, total: 0, max: 0 });
+    s.calls++;
+    s.total += e.d || 0;
+    s.max = Math.max(s.max, e.d || 0);
+    if (e.e) s.errors++;
+  });
+  var list = Object.keys(stats).map(function (k) { return stats[k]; });
+  list.sort(function (a, b) { return b.total - a.total; });
+  var total = list.reduce(function (sum, s) { return sum + s.total; }, 0);
+
+  var body = document.getElementById("summary-body");
+  body.textContent = "";
+  list.forEach(function (s) {
+    body.appendChild(el("tr", {}, [
+      el("td", { "class": "num", text: total > 0 ? (100 * s.total / total).toFixed(2) : "0.00" }),
+      el("td", { "class": "num", text: seconds(s.total, 6) }),
+      el("td", { "class": "num", text: String(Math.round(s.total / s.calls / 1e3)) }),
+      el("td", { "class": "num", text: duration(s.max) }),
+      el("td", { "class": "num", text: String(s.calls) }),
+      el("td", { "class": "num" + (s.errors ? " err" : ""), text: s.errors ? String(s.errors) : "" }),
+      el("td", {}, [el("a", { "class": "pick", text: s.name, onclick: function () { setFilter(s.name); } })]),
+    ]));
+  });
+}
+
+function renderErrors() {
+  var groups = {};
+  filtered.forEach(function (e) {
+    if (!e.e) return;
+    var key = e.s + " " + e.e;
+    var g = groups[key] || (groups[key] = { syscall: e.s, errno: e.e, message: e.m, count: 0, first: e });
+    g.count++;
+  });
+  var list = Object.keys(groups).map(function (k) { return groups[k]; });
+  list.sort(function (a, b) { return b.count - a.count; });
+
+  var body = document.getElementById("errors-body");
+  body.textContent = "";
+  if (list.length === 0) body.appendChild(el("tr", {}, [el("td", { "class": "dim", text: "No failed calls" })]));
+  list.forEach(function (g) {
+    body.appendChild(el("tr", {}, [
+      el("td", { "class": "num", text: String(g.count) }),
+      el("td", {}, [el("a", { "class": "pick err", text: g.syscall + " " + g.errno,
+        onclick: function () { setFilter(g.syscall + " errno=" + g.errno); } })]),
+      el("td", { text: g.message || "" }),
+      el("td", { "class": "dim", text: "first at " + seconds(g.first.t) + "s: " + g.first.s + "(" + g.first.a + ")" }),
+    ]));
+  });
+}
+
+// One lane per thread, grouped by process; each call is a bar from its start to its end
+function renderTimeline() {
+  var canvas = document.getElementById("timeline");
+  var lanes = [];
+  var laneOf = {};
+  var start = Infinity, end = 0;
+  filtered.forEach(function (e) {
+    var key = e.p + "/" + e.i;
+    if (!(key in laneOf)) {
+      laneOf[key] = lanes.length;
+      lanes.push({ label: e.n + "/" + e.p + "  " + e.h, pid: e.p, tid: e.i });
+    }
+    start = Math.min(start, e.t);
+    end = Math.max(end, e.t + (e.d || 0));
+  });
+
+  var LABEL = 260, LANE = 18;
+  var width = Math.max(600, document.body.clientWidth - 40);
+  var ratio = window.devicePixelRatio || 1;
+  canvas.width = width * ratio;
+  canvas.height = (lanes.length * LANE + 20) * ratio;
+  canvas.style.width = width + "px";
+  canvas.style.height = (lanes.length * LANE + 20) + "px";
+  var ctx = canvas.getContext("2d");
+  ctx.scale(ratio, ratio);
+  ctx.font = "11px ui-monospace, Menlo, Consolas, monospace";
+  if (lanes.length === 0) return;
+
+  var span = Math.max(end - start, 1);
+  var scale = (width - LABEL - 10) / span;
+  lanes.forEach(function (lane, i) {
+    ctx.fillStyle = i % 2 ? "#f6f7fa" : "#fff";
+    ctx.fillRect(0, i * LANE, width, LANE);
+    ctx.fillStyle = "#333";
+    ctx.fillText(lane.label.slice(0, 40), 4, i * LANE + 13);
+  });
+  filtered.forEach(function (e) {
+    var x = LABEL + (e.t - start) * scale;
+    var w = Math.max(1, (e.d || 0) * scale);
+    ctx.fillStyle = e.e ? "#c0262d" : "#3b6fd1";
+    ctx.fillRect(x, laneOf[e.p + "/" + e.i] * LANE + 3, w, LANE - 6);
+  });
+  ctx.fillStyle = "#888";
+  ctx.fillText(seconds(start) + "s", LABEL, lanes.length * LANE + 14);
+  var last = seconds(end) + "s";
+  ctx.fillText(last, width - 10 - ctx.measureText(last).width, lanes.length * LANE + 14);
+
+  canvas.onmousemove = function (ev) {
+    var rect = canvas.getBoundingClientRect();
+    var lane = lanes[Math.floor((ev.clientY - rect.top) / LANE)];
+    var tip = document.getElementById("tooltip");
+    var x = ev.clientX - rect.left;
+    if (!lane || x < LABEL) { tip.style.display = "none"; return; }
+    var t = start + (x - LABEL) / scale;
+    var slack = 3 / scale;
+    var hit = null;
+    for (var i = 0; i < filtered.length; i++) {
+      var e = filtered[i];
+      if (e.p !== lane.pid || e.i !== lane.tid) continue;
+      if (e.t - slack <= t && t <= e.t + (e.d || 0) + slack) { hit = e; break; }
+    }
+    if (!hit) { tip.style.display = "none"; return; }
+    tip.textContent = seconds(hit.t) + "s " + duration(hit.d) + "\\n" + hit.s + "(" + hit.a + ") " + result(hit);
+    tip.style.left = (ev.clientX + 12) + "px";
+    tip.style.top = (ev.clientY + 12) + "px";
+    tip.style.display = "block";
+  };
+  canvas.onmouseleave = function () { document.getElementById("tooltip").style.display = "none"; };
+  canvas.onclick = function (ev) {
+    var lane = lanes[Math.floor((ev.clientY - canvas.getBoundingClientRect().top) / LANE)];
+    if (lane) setFilter("pid=" + lane.pid + " tid=0x" + lane.tid.toString(16));
+  };
+}
+
+function renderEvents() {
+  var body = document.getElementById("events-body");
+  body.textContent = "";
+  filtered.slice(0, shown).forEach(function (e) {
+    var row = el("tr", {}, [
+      el("td", { "class": "num dim", text: seconds(e.t) }),
+      el("td", { "class": "num", text: duration(e.d) }),
+      el("td", { text: e.n + "/" + e.p }),
+      el("td", { text: e.h }),
+      el("td", { "class": "call" + (e.e ? " err" : ""), text: e.s + "(" + e.a + ") " + result(e) }),
+    ]);
+    // Click a row for the raw signature and args
+    row.onclick = function () {
+      if (row.nextSibling && row.nextSibling.className === "detail") {
+        body.removeChild(row.nextSibling);
+        return;
+      }
+      var detail = el("tr", { "class": "detail" }, [el("td", { colspan: "5",
+        text: "signature  " + e.g + "\\nraw args   [" + e.w.join(", ") + "]\\nstart      " + e.t + " ns" +
+          (e.d !== null ? "\\nduration   " + e.d + " ns" : "") + (e.e ? "\\nerrno      " + e.e + " (" + e.m + ")" : "") })]);
+      body.insertBefore(detail, row.nextSibling);
+    };
+    body.appendChild(row);
+  });
+  var more = document.getElementById("more");
+  more.style.display = filtered.length > shown ? "inline" : "none";
+  more.textContent = "Show " + Math.min(PAGE, filtered.length - shown) + " more";
+}
+
+function render() {
+  document.getElementById("status").textContent =
+    filtered.length === events.length ? events.length + " events" : filtered.length + " of " + events.length + " events";
+  renderSummary();
+  renderErrors();
+  renderTimeline();
+  renderEvents();
+}
+
+document.getElementById("filter").oninput = applyFilter;
+document.getElementById("search").oninput = applyFilter;
+document.getElementById("errors-only").onchange = applyFilter;
+document.getElementById("more").onclick = function () { shown += PAGE; renderEvents(); };
+window.onresize = renderTimeline;
+render();
+`;
+
+// Write a self-contained HTML report as events arrive: the events are
+// embedded as JSON, and the page builds its summary, errors, timeline and
+// filters in the browser without loading anything else.
+export function createHtmlReportWriter(write: (s: string) => void, options: HtmlReportOptions = {}) {
+  const title = escapeHtml(options.title ?? "trace");
+  const classes = { ...SYSCALL_CLASSES };
+  for (const [alias, name] of Object.entries(SYSCALL_CLASS_ALIASES)) {
+    if (SYSCALL_CLASSES[name]) classes[alias] = SYSCALL_CLASSES[name];
+  }
+
+  write(`<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>mactrace: ${title}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<header><h1>mactrace: ${title}</h1><div class="meta">Generated ${escapeHtml(new Date().toISOString())}</div></header>
+<div id="controls">
+<input type="text" id="filter" placeholder="Filter: open,%file pid=123 tid=0x1f2a errno=failed">
+<input type="text" id="search" placeholder="Search">
+<label><input type="checkbox" id="errors-only"> Errors only</label>
+<span id="status"></span>
+</div>
+<section><h2>Summary</h2><table>
+<thead><tr><th class="num">% time</th><th class="num">seconds</th><th class="num">usecs/call</th><th class="num">max</th><th class="num">calls</th><th class="num">errors</th><th>syscall</th></tr></thead>
+<tbody id="summary-body"></tbody></table></section>
+<section><h2>Errors</h2><table><tbody id="errors-body"></tbody></table></section>
+<section><h2>Timeline</h2><canvas id="timeline"></canvas></section>
+<section id="events-section"><h2>Events</h2><table>
+<thead><tr><th class="num">time</th><th class="num">duration</th><th>process</th><th>thread</th><th>call</th></tr></thead>
+<tbody id="events-body"></tbody></table>
+<p><button id="more"></button></p></section>
+<div id="tooltip"></div>
+<script id="classes" type="application/json">${scriptJson(classes)}</script>
+<script id="events" type="application/json">[`);
+
+  let count = 0;
+  return {
+    add(event: TraceEvent): void {
+      write((count++ === 0 ? "\n" : ",\n") + scriptJson(toHtmlEvent(event)));
+    },
+    end(): void {
+      write(`\n]</script>\n<script>${SCRIPT}</script>\n</body>\n</html>\n`);
+    },
+  };
+}
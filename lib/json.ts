@@ -0,0 +1,116 @@
+import type { TraceEvent } from "./exporter";
+import { decodeArgs, formatReturnValue, isErrorEvent } from "./formatter";
+import { ERRNO_NAMES } from "./syscalls";
+import { formatTimestamp } from "./time";
+
+export type OutputFormat = "text" | "json" | "ndjson";
+
+export const OUTPUT_FORMATS: OutputFormat[] = ["text", "json", "ndjson"];
+
+// Structured form of a TraceEvent for --format json/ndjson
+export interface JsonEvent {
+  timestampNs: number;
+  durationNs: number | null;
+  endNs: number | null;
+  syscall: string;
+  signature: string;
+  pid: number | null;
+  tid: number | null;
+  threadName: string | null;
+  process: string | null;
+  args: string[];
+  decodedArgs: string[];
+  result: string | null;
+  formattedResult: string | null;
+  error: boolean;
+  errno: number | null;
+  errnoName: string | null;
+  errnoText: string | null;
+}
+
+export function toJsonEvent(event: TraceEvent): JsonEvent {
+  const error = isErrorEvent(event);
+
+  return {
+    timestampNs: event.startNs,
+    durationNs: event.durationNs ?? null,
+    endNs: event.endNs ?? null,
+    syscall: event.syscall,
+    signature: event.signature,
+    pid: event.pid ?? null,
+    tid: event.tid ?? null,
+    threadName: event.threadName ?? null,
+    process: event.process ?? null,
+    args: event.args ?? [],
+    decodedArgs: decodeArgs(event),
+    result: event.result ?? null,
+    formattedResult: formatReturnValue(event) ?? null,
+    error,
+    errno: error ? event.errnoCode ?? null : null,
+    errnoName: error ? event.errnoName ?? null : null,
+    errnoText: event.errno ?? null,
+  };
+}
+
+// One JSON object per line
+export function formatNdjson(event: TraceEvent): string {
+  return JSON.stringify(toJsonEvent(event));
+}
+
+// Write events as a JSON array, one element per line, as they arrive
+export function createJsonArrayWriter(write: (s: string) => void) {
+  let count = 0;
+  return {
+    add(event: TraceEvent): void {
+      write((count++ === 0 ? "[\n  " : ",\n  ") + JSON.stringify(toJsonEvent(event)));
+    },
+    end(): void {
+      write(count === 0 ? "[]\n" : "\n]\n");
+    },
+  };
+}
+
+// Rebuild a TraceEvent from --format json/ndjson output, so saved event
+// files can be analysed again. xctrace's duration string isn't saved, and
+// output formats durationNs itself, so it is left out.
+export function fromJsonEvent(json: JsonEvent): TraceEvent {
+  const errnoCode = json.errno ?? undefined;
+  return {
+    timestamp: formatTimestamp(json.timestampNs),
+    startNs: json.timestampNs,
+    durationNs: json.durationNs ?? undefined,
+    endNs: json.endNs ?? (json.durationNs !== null ? json.timestampNs + json.durationNs : undefined),
+    syscall: json.syscall,
+    signature: json.signature,
+    pid: json.pid ?? undefined,
+    tid: json.tid ?? undefined,
+    threadName: json.threadName ?? undefined,
+    process: json.process ?? undefined,
+    result: json.result ?? undefined,
+    errno: json.errnoText ?? undefined,
+    errnoCode,
+    errnoName: json.errnoName ?? (errnoCode !== undefined ? ERRNO_NAMES[errnoCode] : undefined),
+    args: json.args,
+  };
+}
+
+// Saved --format json or ndjson output
+export function isJsonEventFile(path: string): boolean {
+  return /\.(nd)?json$/i.test(path);
+}
+
+// Read events from a saved json (array) or ndjson (one per line) file
+export async function* readJsonEvents(path: string): AsyncGenerator<TraceEvent> {
+  const text = await Bun.file(path).text();
+
+  if (text.trimStart().startsWith("[")) {
+    for (const json of JSON.parse(text) as JsonEvent[]) {
+      yield fromJsonEvent(json);
+    }
+    return;
+  }
+
+  for (const line of text.split("\n")) {
+    if (line.trim()) yield fromJsonEvent(JSON.parse(line) as JsonEvent);
+  }
+}
@@ -0,0 +1,123 @@
+import type { TraceEvent } from "./exporter";
+import { formatDuration } from "./time";
+
+export type LatencyGrouping = "syscall" | "process" | "thread";
+
+export interface LatencyStats {
+  // Group label: the syscall name, prefixed by "name/pid" or "tid 0x.." when grouped
+  label: string;
+  syscall: string;
+  count: number;
+  p50: number;
+  p90: number;
+  p99: number;
+  max: number;
+  // Sorted durations in nanoseconds
+  durations: number[];
+}
+
+export interface LatencyOptions {
+  groupBy?: LatencyGrouping;
+  color?: boolean;
+}
+
+// Width of the widest histogram bar
+const BAR_WIDTH = 40;
+
+function groupLabel(event: TraceEvent, groupBy: LatencyGrouping): string {
+  if (groupBy === "process") {
+    const name = event.process?.split(" ")[0] || "?";
+    return `${name}/${event.pid ?? 0} ${event.syscall}`;
+  }
+  if (groupBy === "thread") {
+    const name = event.threadName ? ` (${event.threadName})` : "";
+    return `tid 0x${(event.tid ?? 0).toString(16)}${name} ${event.syscall}`;
+  }
+  return event.syscall;
+}
+
+// Nearest-rank percentile of sorted values
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length - 1, Math.max(0, rank - 1))]!;
+}
+
+export function computeLatencies(events: Iterable<TraceEvent>, options: LatencyOptions = {}): LatencyStats[] {
+  const groups = new Map<string, { syscall: string; durations: number[] }>();
+
+  for (const event of events) {
+    const ns = event.durationNs;
+    if (ns === undefined) continue;
+
+    const label = groupLabel(event, options.groupBy ?? "syscall");
+    let group = groups.get(label);
+    if (!group) {
+      group = { syscall: event.syscall, durations: [] };
+      groups.set(label, group);
+    }
+    group.durations.push(ns);
+  }
+
+  const stats = [...groups].map(([label, { syscall, durations }]) => {
+    durations.sort((a, b) => a - b);
+    return {
+      label,
+      syscall,
+      count: durations.length,
+      p50: percentile(durations, 50),
+      p90: percentile(durations, 90),
+      p99: percentile(durations, 99),
+      max: durations[durations.length - 1] ?? 0,
+      durations,
+    };
+  });
+
+  // Worst tail first
+  return stats.sort((a, b) => b.p99 - a.p99);
+}
+
+// Power-of-two histogram: bucket i counts durations in [2^i, 2^(i+1)) ns
+function histogram(durations: number[]): Map<number, number> {
+  const buckets = new Map<number, number>();
+  for (const ns of durations) {
+    const bucket = ns < 1 ? 0 : Math.floor(Math.log2(ns));
+    buckets.set(bucket, (buckets.get(bucket) ?? 0) + 1);
+  }
+  return buckets;
+}
+
+function formatHistogram(durations: number[], options: LatencyOptions): string[] {
+  const dim = options.color ? "\x1b[2m" : "";
+  const reset = options.color ? "\x1b[0m" : "";
+
+  const buckets = histogram(durations);
+  const keys = [...buckets.keys()];
+  const lo = Math.min(...keys);
+  const hi = Math.max(...keys);
+  const peak = Math.max(...buckets.values());
+  const count = String(peak).length;
+
+  const lines: string[] = [];
+  for (let b = lo; b <= hi; b++) {
+    const n = buckets.get(b) ?? 0;
+    const range = `[${formatDuration(2 ** b)}, ${formatDuration(2 ** (b + 1))})`;
+    const bar = "@".repeat(Math.round((n / peak) * BAR_WIDTH));
+    lines.push(`  ${range.padEnd(20)} ${String(n).padStart(count)} ${dim}|${reset}${bar.padEnd(BAR_WIDTH)}${dim}|${reset}`);
+  }
+  return lines;
+}
+
+export function formatLatencyReport(stats: LatencyStats[], options: LatencyOptions = {}): string {
+  const bold = options.color ? "\x1b[1m" : "";
+  const reset = options.color ? "\x1b[0m" : "";
+
+  const sections = stats.map((s) => {
+    const header = `${bold}${s.label}${reset}  ${s.count} calls  ` +
+      `p50 ${formatDuration(s.p50)}  p90 ${formatDuration(s.p90)}  ` +
+      `p99 ${formatDuration(s.p99)}  max ${formatDuration(s.max)}`;
+    return [header, ...formatHistogram(s.durations, options)].join("\n");
+  });
+
+  return sections.join("\n\n") + "\n";
+}
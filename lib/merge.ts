@@ -0,0 +1,29 @@
+// Merge streams that are each ordered by start time into one ordered stream.
+// Every stream is read one item ahead, so exports run side by side without
+// being collected; ties go to the earlier stream.
+export async function* mergeByTime<T extends { startNs: number }>(
+  streams: AsyncIterable<T>[]
+): AsyncGenerator<T> {
+  const iterators = streams.map((stream) => stream[Symbol.asyncIterator]());
+
+  // Close every stream when the merge ends early or one of them throws, so
+  // their finally blocks run (and kill their exports)
+  try {
+    const heads = await Promise.all(iterators.map((it) => it.next()));
+
+    while (true) {
+      let next = -1;
+      heads.forEach((head, i) => {
+        if (head.done) return;
+        const current = heads[next];
+        if (!current || head.value.startNs < current.value.startNs) next = i;
+      });
+      if (next < 0) return;
+
+      yield heads[next]!.value;
+      heads[next] = await iterators[next]!.next();
+    }
+  } finally {
+    await Promise.all(iterators.map((it) => it.return?.()));
+  }
+}
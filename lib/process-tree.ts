@@ -0,0 +1,105 @@
+import type { TraceEvent } from "./exporter";
+import { isErrorEvent } from "./formatter";
+import { childPidOf } from "./children";
+import { formatSeconds } from "./time";
+
+export interface ProcessNode {
+  pid: number;
+  // Process names in the order they were seen (more than one after execve)
+  names: string[];
+  parent?: number;
+  children: number[];
+  startNs?: number;
+  endNs?: number;
+  // Status passed to exit(), when the process was seen exiting
+  exitStatus?: number;
+}
+
+function parseNum(s: string | undefined): number | undefined {
+  if (!s) return undefined;
+  const val = parseInt(s, s.startsWith("0x") ? 16 : 10);
+  return isNaN(val) ? undefined : val;
+}
+
+function processName(event: TraceEvent): string {
+  return event.process?.replace(/\s*\(\d+\)$/, "") || "?";
+}
+
+// Reconstruct the process tree from fork/vfork/wait4/exit events. A child
+// started with posix_spawn is linked when its parent reaps it (see childPidOf);
+// System Trace records unrelated processes too, so new pids aren't guessed at.
+export function buildProcessTree(events: Iterable<TraceEvent>): Map<number, ProcessNode> {
+  const nodes = new Map<number, ProcessNode>();
+
+  function getNode(pid: number): ProcessNode {
+    let node = nodes.get(pid);
+    if (!node) {
+      node = { pid, names: [], children: [] };
+      nodes.set(pid, node);
+    }
+    return node;
+  }
+
+  function link(parent: number, child: number): void {
+    const node = getNode(child);
+    if (node.parent !== undefined || parent === child) return;
+    node.parent = parent;
+    getNode(parent).children.push(child);
+  }
+
+  for (const event of events) {
+    if (event.pid === undefined) continue;
+
+    const node = getNode(event.pid);
+    const name = processName(event);
+    if (node.names[node.names.length - 1] !== name) node.names.push(name);
+
+    node.startNs ??= event.startNs;
+    node.endNs = event.endNs ?? event.startNs;
+
+    const child = childPidOf(event);
+    if (child !== undefined) {
+      link(event.pid, child);
+    } else if (event.syscall === "exit" && !isErrorEvent(event)) {
+      node.exitStatus = parseNum(event.args?.[0]);
+    }
+  }
+
+  return nodes;
+}
+
+function describe(node: ProcessNode): string {
+  const name = node.names.join(" → ") || "?";
+  const parts = [`${name} (${node.pid})`];
+
+  if (node.startNs !== undefined && node.endNs !== undefined) {
+    parts.push(`${formatSeconds(node.startNs, 3)}s-${formatSeconds(node.endNs, 3)}s`);
+  }
+
+  parts.push(node.exitStatus !== undefined ? `exited ${node.exitStatus}` : "no exit seen");
+  return parts.join("  ");
+}
+
+// Render the tree with box-drawing characters, one process per line
+export function formatProcessTree(nodes: Map<number, ProcessNode>): string {
+  const lines: string[] = [];
+
+  function walk(pid: number, prefix: string, childPrefix: string): void {
+    const node = nodes.get(pid);
+    if (!node) return;
+    lines.push(prefix + describe(node));
+
+    node.children.forEach((child, i) => {
+      const last = i === node.children.length - 1;
+      walk(child, childPrefix + (last ? "└─ " : "├─ "), childPrefix + (last ? "   " : "│  "));
+    });
+  }
+
+  for (const node of nodes.values()) {
+    if (node.parent === undefined || !nodes.has(node.parent)) {
+      walk(node.pid, "", "");
+    }
+  }
+
+  return lines.join("\n") + "\n";
+}
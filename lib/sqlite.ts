@@ -0,0 +1,241 @@
+import { Database } from "bun:sqlite";
+import { rmSync } from "fs";
+import type { TraceEvent } from "./exporter";
+import { decodeArgs, formatReturnValue, isErrorEvent } from "./formatter";
+import { SYSCALL_CLASSES, normalizeSyscallName } from "./syscalls";
+
+// Times are integer nanoseconds since the trace started. The trace view joins
+// the tables back together for ad-hoc queries.
+const SCHEMA = `
+CREATE TABLE processes (
+  pid INTEGER PRIMARY KEY,
+  name TEXT,
+  first_ns INTEGER NOT NULL,  -- Start of its first syscall
+  last_ns INTEGER NOT NULL    -- End of its last syscall
+);
+
+CREATE TABLE threads (
+  tid INTEGER PRIMARY KEY,
+  pid INTEGER REFERENCES processes (pid),
+  name TEXT                   -- Thread name or dispatch queue label
+);
+
+CREATE TABLE syscalls (
+  id INTEGER PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  classes TEXT                -- -e trace=%class classes, e.g. "file"
+);
+
+CREATE TABLE errors (
+  errno INTEGER PRIMARY KEY,
+  name TEXT NOT NULL,         -- e.g. ENOENT
+  message TEXT
+);
+
+CREATE TABLE events (
+  id INTEGER PRIMARY KEY,
+  start_ns INTEGER NOT NULL,
+  duration_ns INTEGER,
+  end_ns INTEGER,
+  pid INTEGER REFERENCES processes (pid),
+  tid INTEGER REFERENCES threads (tid),
+  syscall_id INTEGER NOT NULL REFERENCES syscalls (id),
+  args TEXT,                  -- Decoded, as in the text output
+  raw_args TEXT,              -- JSON array of the hex values
+  result TEXT,                -- Formatted, as in the text output
+  raw_result TEXT,
+  errno INTEGER REFERENCES errors (errno),  -- Set for failed calls only
+  signature TEXT              -- xctrace's raw call text
+);
+
+CREATE VIEW trace AS
+SELECT e.id, e.start_ns, e.duration_ns, e.end_ns,
+       e.pid, p.name AS process, e.tid, t.name AS thread,
+       s.name AS syscall, s.classes, e.args, e.raw_args, e.result, e.raw_result,
+       e.errno, r.name AS errno_name, r.message AS errno_message, e.signature
+FROM events e
+JOIN syscalls s ON s.id = e.syscall_id
+LEFT JOIN processes p ON p.pid = e.pid
+LEFT JOIN threads t ON t.tid = e.tid
+LEFT JOIN errors r ON r.errno = e.errno;
+`;
+
+// Built after the inserts, which is faster than keeping them up to date
+const INDEXES = `
+CREATE INDEX events_syscall ON events (syscall_id, start_ns);
+CREATE INDEX events_pid ON events (pid, start_ns);
+CREATE INDEX events_tid ON events (tid, start_ns);
+CREATE INDEX events_start ON events (start_ns);
+CREATE INDEX events_errno ON events (errno) WHERE errno IS NOT NULL;
+`;
+
+interface ProcessRow {
+  name: string | null;
+  firstNs: number;
+  lastNs: number;
+}
+
+function classesOf(syscall: string): string | null {
+  const name = normalizeSyscallName(syscall);
+  const classes = Object.keys(SYSCALL_CLASSES).filter((cls) => SYSCALL_CLASSES[cls]!.includes(name));
+  return classes.length > 0 ? classes.join(",") : null;
+}
+
+// Write events to a new SQLite database at path, replacing any existing file.
+// Everything goes in one transaction, committed by end(); abort() rolls it back
+// and removes the file, so a failed run leaves no empty database behind.
+export function createSqliteWriter(path: string) {
+  rmSync(path, { force: true });
+  const db = new Database(path, { create: true, strict: true });
+  db.run("BEGIN");
+  db.run(SCHEMA);
+
+  const insertEvent = db.prepare(
+    `INSERT INTO events (start_ns, duration_ns, end_ns, pid, tid, syscall_id, args, raw_args, result, raw_result, errno, signature)
+     VALUES ($start, $duration, $end, $pid, $tid, $syscall, $args, $rawArgs, $result, $rawResult, $errno, $signature)`
+  );
+  const insertSyscall = db.prepare(
+    "INSERT INTO syscalls (id, name, classes) VALUES ($id, $name, $classes)"
+  );
+  const insertError = db.prepare("INSERT INTO errors (errno, name, message) VALUES ($errno, $name, $message)");
+
+  const syscallIds = new Map<string, number>();
+  const errnos = new Set<number>();
+  // Processes and threads are few; their rows are written by end()
+  const processes = new Map<number, ProcessRow>();
+  const threads = new Map<number, { pid: number | null; name: string | null }>();
+
+  function syscallId(event: TraceEvent): number {
+    let id = syscallIds.get(event.syscall);
+    if (id === undefined) {
+      id = syscallIds.size + 1;
+      syscallIds.set(event.syscall, id);
+      insertSyscall.run({ id, name: event.syscall, classes: classesOf(event.syscall) });
+    }
+    return id;
+  }
+
+  return {
+    add(event: TraceEvent): void {
+      const error = isErrorEvent(event);
+      const errno = error ? event.errnoCode! : null;
+      if (errno !== null && !errnos.has(errno)) {
+        errnos.add(errno);
+        insertError.run({ errno, name: event.errnoName ?? String(errno), message: event.errno ?? null });
+      }
+
+      const endNs = event.endNs ?? event.startNs + (event.durationNs ?? 0);
+      if (event.pid !== undefined) {
+        const proc = processes.get(event.pid);
+        if (!proc) {
+          const name = event.process?.replace(/\s*\(\d+\)$/, "") || null;
+          processes.set(event.pid, { name, firstNs: event.startNs, lastNs: endNs });
+        } else {
+          proc.lastNs = Math.max(proc.lastNs, endNs);
+        }
+      }
+      if (event.tid !== undefined) {
+        const thread = threads.get(event.tid);
+        if (!thread) threads.set(event.tid, { pid: event.pid ?? null, name: event.threadName || null });
+        else thread.name ??= event.threadName || null;
+      }
+
+      insertEvent.run({
+        start: event.startNs,
+        duration: event.durationNs ?? null,
+        end: event.endNs ?? null,
+        pid: event.pid ?? null,
+        tid: event.tid ?? null,
+        syscall: syscallId(event),
+        args: decodeArgs(event).join(", "),
+        rawArgs: JSON.stringify(event.args ?? []),
+        result: formatReturnValue(event) ?? null,
+        rawResult: event.result ?? null,
+        errno,
+        signature: event.signature || null,
+      });
+    },
+    end(): void {
+      const insertProcess = db.prepare(
+        "INSERT INTO processes (pid, name, first_ns, last_ns) VALUES ($pid, $name, $first, $last)"
+      );
+      for (const [pid, proc] of processes) {
+        insertProcess.run({ pid, name: proc.name, first: proc.firstNs, last: proc.lastNs });
+      }
+      const insertThread = db.prepare("INSERT INTO threads (tid, pid, name) VALUES ($tid, $pid, $name)");
+      for (const [tid, thread] of threads) {
+        insertThread.run({ tid, pid: thread.pid, name: thread.name });
+      }
+
+      db.run(INDEXES);
+      db.run("COMMIT");
+      db.close();
+    },
+    abort(): void {
+      if (db.inTransaction) db.run("ROLLBACK");
+      db.close();
+      rmSync(path, { force: true });
+    },
+  };
+}
+
+export type QueryFormat = "text" | "json" | "ndjson" | "csv";
+
+export const QUERY_FORMATS: QueryFormat[] = ["text", "json", "ndjson", "csv"];
+
+export interface QueryResult {
+  columns: string[];
+  rows: Record<string, unknown>[];
+}
+
+// Run one SQL statement against a database written by --sqlite, read-only
+export function queryDatabase(path: string, sql: string): QueryResult {
+  const db = new Database(path, { readonly: true });
+  try {
+    const statement = db.query(sql);
+    const rows = statement.all() as Record<string, unknown>[];
+    return { columns: statement.columnNames, rows };
+  } finally {
+    db.close();
+  }
+}
+
+function cellText(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Uint8Array) return `<${value.length} bytes>`;
+  return String(value);
+}
+
+function csvField(value: unknown): string {
+  const text = cellText(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Format query rows as an aligned table (numbers right-aligned), JSON or CSV
+export function formatQueryResult(result: QueryResult, format: QueryFormat = "text"): string {
+  const { columns, rows } = result;
+
+  if (format === "json") return JSON.stringify(rows, null, 2) + "\n";
+  if (format === "ndjson") return rows.map((row) => JSON.stringify(row) + "\n").join("");
+  if (format === "csv") {
+    const lines = [columns.map(csvField).join(",")];
+    for (const row of rows) lines.push(columns.map((col) => csvField(row[col])).join(","));
+    return lines.join("\n") + "\n";
+  }
+
+  const widths = columns.map((col) =>
+    Math.max(col.length, ...rows.map((row) => cellText(row[col]).length))
+  );
+  const line = (cells: string[], numeric: boolean[]) =>
+    cells.map((cell, i) => numeric[i] ? cell.padStart(widths[i]!) : cell.padEnd(widths[i]!)).join("  ").trimEnd();
+
+  const lines = [
+    line(columns, columns.map(() => false)),
+    widths.map((w) => "-".repeat(w)).join("  "),
+  ];
+  for (const row of rows) {
+    lines.push(line(columns.map((col) => cellText(row[col])), columns.map((col) => typeof row[col] === "number")));
+  }
+  lines.push(`(${rows.length} row${rows.length === 1 ? "" : "s"})`);
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,80 @@
+import type { TableEvent, TraceEvent } from "./exporter";
+import { decodeArgs, describeTableEvent, formatReturnValue, isErrorEvent } from "./formatter";
+import { formatErrno } from "./syscalls";
+import { createTimestampFormatter, formatSeconds, type TimestampStyle } from "./time";
+
+export interface StraceFormatOptions {
+  timestamps?: TimestampStyle;
+  // Digits after the decimal point of timestamps (default 6)
+  precision?: number;
+  // Append the time spent in each syscall (-T)
+  syscallTimes?: boolean;
+  // Prefix lines with "[pid N]" (-f)
+  pidPrefix?: boolean;
+  // Wall-clock time the trace started, for -t/-tt/-ttt; without it absolute
+  // timestamps count from midnight UTC
+  startDate?: Date;
+  // Describe an fd of a process (see fd-tracker)
+  fdLabel?: (pid: number | undefined, fd: number) => string | undefined;
+}
+
+// Create a formatter rendering events like Linux `strace -f -tt -T`. Rows of
+// --include tables read like strace's signal lines ("--- ... ---"). It keeps
+// the previous timestamp for -r, so use one formatter per output stream.
+export function createStraceFormatter(
+  options: StraceFormatOptions = {}
+): (event: TraceEvent | TableEvent) => string {
+  const style = options.timestamps ?? "none";
+  const timestamp = createTimestampFormatter({
+    style,
+    precision: options.precision ?? 6,
+    startDate: options.startDate,
+  });
+
+  return (event) => {
+    const parts: string[] = [];
+
+    if (options.pidPrefix) {
+      parts.push(`[pid ${String(event.pid ?? 0).padStart(5)}]`);
+    }
+
+    const ts = timestamp(event.startNs);
+    if (style === "r") {
+      parts.push(ts.padStart(13));
+    } else if (style !== "none") {
+      parts.push(ts);
+    }
+
+    if ("table" in event) {
+      parts.push(`--- ${describeTableEvent(event)} ---`);
+      return parts.join(" ");
+    }
+
+    // strace prints fds as plain numbers, or "3<label>" with -y
+    const args = decodeArgs(event).map((arg) =>
+      arg.replace(/^<fd:(\d+)>$/, (_match, n: string) => {
+        const label = options.fdLabel?.(event.pid, Number(n));
+        return label ? `${n}<${label}>` : n;
+      })
+    );
+
+    let result: string;
+    const value = formatReturnValue(event);
+    if (value === undefined) {
+      result = "?";
+    } else if (isErrorEvent(event)) {
+      result = formatErrno(event.errnoCode!);
+    } else {
+      result = value.replace(/^<fd:(\d+)[^>]*>$/, "$1");
+    }
+
+    let line = `${event.syscall}(${args.join(", ")}) = ${result}`;
+    if (options.syscallTimes) {
+      const dur = event.durationNs;
+      line += ` <${dur !== undefined ? formatSeconds(dur) : "?"}>`;
+    }
+    parts.push(line);
+
+    return parts.join(" ");
+  };
+}
@@ -0,0 +1,147 @@
+import type { TraceEvent } from "./exporter";
+import { isErrorEvent } from "./formatter";
+import { formatSeconds } from "./time";
+
+export interface SyscallStats {
+  syscall: string;
+  calls: number;
+  errors: number;
+  totalNs: number;
+  maxNs: number;
+}
+
+export interface SummaryGroup {
+  // Process label ("name/pid"), or undefined for the whole trace
+  process?: string;
+  stats: SyscallStats[];
+}
+
+export type SummarySortKey = "time" | "calls" | "errors" | "avg" | "max" | "name";
+
+export const SUMMARY_SORT_KEYS: SummarySortKey[] = ["time", "calls", "errors", "avg", "max", "name"];
+
+export interface SummaryOptions {
+  sortBy?: SummarySortKey;
+  perProcess?: boolean;
+  color?: boolean;
+}
+
+function aggregate(events: Iterable<TraceEvent>): SyscallStats[] {
+  const bySyscall = new Map<string, SyscallStats>();
+
+  for (const event of events) {
+    let stats = bySyscall.get(event.syscall);
+    if (!stats) {
+      stats = { syscall: event.syscall, calls: 0, errors: 0, totalNs: 0, maxNs: 0 };
+      bySyscall.set(event.syscall, stats);
+    }
+
+    const ns = event.durationNs ?? 0;
+    stats.calls++;
+    stats.totalNs += ns;
+    stats.maxNs = Math.max(stats.maxNs, ns);
+    if (isErrorEvent(event)) stats.errors++;
+  }
+
+  return [...bySyscall.values()];
+}
+
+export function summarize(events: TraceEvent[], options: SummaryOptions = {}): SummaryGroup[] {
+  if (!options.perProcess) {
+    return [{ stats: aggregate(events) }];
+  }
+
+  const byProcess = new Map<string, TraceEvent[]>();
+  for (const event of events) {
+    const name = event.process?.split(" ")[0] || "?";
+    const key = `${name}/${event.pid ?? 0}`;
+    let list = byProcess.get(key);
+    if (!list) {
+      list = [];
+      byProcess.set(key, list);
+    }
+    list.push(event);
+  }
+
+  return [...byProcess].map(([process, list]) => ({ process, stats: aggregate(list) }));
+}
+
+function avg(s: SyscallStats): number {
+  return s.calls > 0 ? s.totalNs / s.calls : 0;
+}
+
+function compareStats(key: SummarySortKey): (a: SyscallStats, b: SyscallStats) => number {
+  switch (key) {
+    case "calls": return (a, b) => b.calls - a.calls;
+    case "errors": return (a, b) => b.errors - a.errors;
+    case "avg": return (a, b) => avg(b) - avg(a);
+    case "max": return (a, b) => b.maxNs - a.maxNs;
+    case "name": return (a, b) => a.syscall.localeCompare(b.syscall);
+    case "time": return (a, b) => b.totalNs - a.totalNs;
+  }
+}
+
+function pad(s: string, len: number, left = true): string {
+  if (s.length >= len) return s;
+  const spaces = " ".repeat(len - s.length);
+  return left ? spaces + s : s + spaces;
+}
+
+function formatTable(stats: SyscallStats[], options: SummaryOptions): string[] {
+  const dim = options.color ? "\x1b[2m" : "";
+  const red = options.color ? "\x1b[31m" : "";
+  const reset = options.color ? "\x1b[0m" : "";
+
+  const sorted = [...stats].sort(compareStats(options.sortBy ?? "time"));
+  const totalNs = stats.reduce((sum, s) => sum + s.totalNs, 0);
+  const totalCalls = stats.reduce((sum, s) => sum + s.calls, 0);
+  const totalErrors = stats.reduce((sum, s) => sum + s.errors, 0);
+
+  const separator = `${dim}------ ----------- ----------- ----------- --------- --------- ----------------${reset}`;
+  const lines = [
+    `${dim}% time     seconds  usecs/call   max usecs     calls    errors syscall${reset}`,
+    separator,
+  ];
+
+  for (const s of sorted) {
+    const percent = totalNs > 0 ? (s.totalNs / totalNs) * 100 : 0;
+    const errors = s.errors > 0 ? `${red}${pad(String(s.errors), 9)}${reset}` : pad("", 9);
+    lines.push([
+      pad(percent.toFixed(2), 6),
+      pad(formatSeconds(s.totalNs), 11),
+      pad(Math.round(avg(s) / 1000).toString(), 11),
+      pad(Math.round(s.maxNs / 1000).toString(), 11),
+      pad(String(s.calls), 9),
+      errors,
+      s.syscall,
+    ].join(" "));
+  }
+
+  lines.push(separator);
+  lines.push([
+    pad(totalNs > 0 ? "100.00" : "0.00", 6),
+    pad(formatSeconds(totalNs), 11),
+    pad("", 11),
+    pad("", 11),
+    pad(String(totalCalls), 9),
+    pad(totalErrors > 0 ? String(totalErrors) : "", 9),
+    "total",
+  ].join(" "));
+
+  return lines;
+}
+
+export function formatSummary(groups: SummaryGroup[], options: SummaryOptions = {}): string {
+  const bold = options.color ? "\x1b[1m" : "";
+  const reset = options.color ? "\x1b[0m" : "";
+
+  const sections = groups.map((group) => {
+    const lines = formatTable(group.stats, options);
+    if (group.process) {
+      lines.unshift(`${bold}${group.process}${reset}`);
+    }
+    return lines.join("\n");
+  });
+
+  return sections.join("\n\n") + "\n";
+}
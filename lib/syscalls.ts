@@ -407,6 +407,124 @@ export const SYSCALL_NAMES: Record<number, string> = {
   549: "proc_info_extended_id",
 };
 
+// Syscall classes for `-e trace=%class` filters. Names are listed without
+// the sys_ prefix, _nocancel suffix or _kernelrpc_ prefix (see normalizeSyscallName)
+export const SYSCALL_CLASSES: Record<string, string[]> = {
+  // Syscalls that take a path argument
+  file: [
+    "open", "openat", "open_extended", "open_dprotected_np", "openbyid_np",
+    "guarded_open_np", "guarded_open_dprotected_np",
+    "access", "faccessat", "access_extended",
+    "stat", "stat64", "lstat", "lstat64", "fstatat", "fstatat64",
+    "stat_extended", "lstat_extended", "stat64_extended", "lstat64_extended",
+    "statfs", "statfs64", "getattrlist", "setattrlist", "getattrlistat", "setattrlistat",
+    "getxattr", "setxattr", "removexattr", "listxattr", "pathconf",
+    "chdir", "__pthread_chdir", "chroot",
+    "chmod", "fchmodat", "chmod_extended", "chown", "lchown", "fchownat", "chflags",
+    "link", "linkat", "unlink", "unlinkat", "rename", "renameat", "renameatx_np",
+    "mkdir", "mkdirat", "mkdir_extended", "rmdir", "mkfifo", "mkfifo_extended", "mknod",
+    "symlink", "symlinkat", "readlink", "readlinkat", "truncate", "utimes",
+    "clonefileat", "exchangedata", "searchfs", "copyfile", "delete", "undelete",
+    "revoke", "fsctl", "mount", "unmount", "execve", "__mac_execve", "posix_spawn",
+  ],
+  // Syscalls that take a file descriptor argument
+  desc: [
+    "read", "write", "pread", "pwrite", "readv", "writev", "preadv", "pwritev",
+    "close", "guarded_close_np", "guarded_write_np", "guarded_pwrite_np", "guarded_writev_np",
+    "dup", "dup2", "fcntl", "ioctl", "lseek", "flock", "fsync", "fdatasync", "ftruncate",
+    "fstat", "fstat64", "fstat_extended", "fstat64_extended", "fstatfs", "fstatfs64",
+    "fstatat", "fstatat64", "openat", "faccessat", "fchmodat", "fchownat", "linkat", "unlinkat",
+    "renameat", "mkdirat", "readlinkat", "symlinkat", "getattrlistat", "setattrlistat",
+    "fchdir", "__pthread_fchdir", "fchmod", "fchown", "fchflags", "futimes", "fpathconf",
+    "fgetattrlist", "fsetattrlist", "fgetxattr", "fsetxattr", "fremovexattr", "flistxattr",
+    "getdirentries", "getdirentries64", "getdirentriesattr", "getattrlistbulk",
+    "select", "pselect", "poll", "kqueue", "kevent", "kevent64", "kevent_qos", "kevent_id",
+    "pipe", "fileport_makeport", "fileport_makefd", "fclonefileat", "ffsctl", "sendfile",
+  ],
+  network: [
+    "socket", "socketpair", "connect", "connectx", "disconnectx", "bind", "listen", "accept",
+    "sendto", "recvfrom", "sendmsg", "recvmsg", "sendmsg_x", "recvmsg_x",
+    "setsockopt", "getsockopt", "getpeername", "getsockname", "shutdown",
+    "peeloff", "socket_delegate", "pid_shutdown_sockets",
+    "necp_open", "necp_client_action", "necp_session_open", "necp_session_action",
+    "necp_match_policy", "netagent_trigger", "net_qos_guideline",
+  ],
+  process: [
+    "fork", "vfork", "posix_spawn", "execve", "__mac_execve", "exit", "wait4", "waitid",
+    "kill", "terminate_with_payload", "abort_with_payload",
+    "bsdthread_create", "bsdthread_terminate", "__pthread_kill",
+  ],
+  memory: [
+    "mmap", "munmap", "mprotect", "madvise", "msync", "mincore", "minherit",
+    "mlock", "munlock", "mlockall", "munlockall", "mremap_encrypted",
+    "shared_region_check_np", "shared_region_map_and_slide_np", "shared_region_map_and_slide_2_np",
+    "vm_pressure_monitor",
+    "mach_vm_allocate_trap", "mach_vm_deallocate_trap", "mach_vm_protect_trap",
+    "mach_vm_map_trap", "mach_vm_purgable_control_trap",
+  ],
+  signal: [
+    "sigaction", "sigprocmask", "sigpending", "sigsuspend", "sigaltstack", "sigreturn",
+    "kill", "__pthread_kill", "__pthread_sigmask", "__sigwait", "__disable_threadsignal",
+    "__pthread_markcancel", "__pthread_canceled",
+  ],
+  ipc: [
+    "pipe", "socketpair", "shm_open", "shm_unlink", "shmat", "shmdt", "shmctl", "shmget",
+    "sem_open", "sem_close", "sem_unlink", "sem_wait", "sem_trywait", "sem_post",
+    "semget", "semop", "semctl", "msgget", "msgsnd", "msgrcv", "msgctl",
+    "fileport_makeport", "fileport_makefd",
+    "mach_msg_trap", "mach_msg2_trap", "mach_msg_overwrite_trap", "mach_msg",
+  ],
+  // Mach traps (MSC_ entries in the trace)
+  mach: [
+    "mach_reply_port", "thread_self_trap", "task_self_trap", "host_self_trap",
+    "mach_msg_trap", "mach_msg2_trap", "mach_msg_overwrite_trap", "mach_msg",
+    "mach_vm_allocate_trap", "mach_vm_deallocate_trap", "mach_vm_protect_trap",
+    "mach_vm_map_trap", "mach_vm_purgable_control_trap",
+    "mach_port_allocate_trap", "mach_port_deallocate_trap", "mach_port_mod_refs_trap",
+    "mach_port_move_member_trap", "mach_port_insert_right_trap", "mach_port_insert_member_trap",
+    "mach_port_extract_member_trap", "mach_port_construct_trap", "mach_port_destruct_trap",
+    "mach_port_guard_trap", "mach_port_unguard_trap", "mach_port_get_attributes_trap",
+    "mach_port_type_trap", "mach_port_request_notification_trap",
+    "semaphore_signal_trap", "semaphore_signal_all_trap", "semaphore_signal_thread_trap",
+    "semaphore_wait_trap", "semaphore_wait_signal_trap",
+    "semaphore_timedwait_trap", "semaphore_timedwait_signal_trap",
+    "mk_timer_create", "mk_timer_destroy", "mk_timer_arm", "mk_timer_arm_leeway", "mk_timer_cancel",
+    "mk_timer_create_trap", "mk_timer_destroy_trap", "mk_timer_arm_trap",
+    "mk_timer_arm_leeway_trap", "mk_timer_cancel_trap",
+    "mach_timebase_info_trap", "mach_wait_until_trap", "clock_sleep_trap",
+    "mach_generate_activity_id", "thread_get_special_reply_port",
+    "task_for_pid", "task_name_for_pid", "pid_for_task", "debug_control_port_for_pid",
+    "swtch", "swtch_pri", "thread_switch", "iokit_user_client_trap",
+    "host_create_mach_voucher_trap", "mach_voucher_extract_attr_recipe_trap",
+    "task_dyld_process_info_notify_get",
+  ],
+  // pthread mutexes/condvars/rwlocks and os_unfair_lock
+  lock: [
+    "psynch_mutexwait", "psynch_mutexdrop", "psynch_cvwait", "psynch_cvsignal",
+    "psynch_cvbroad", "psynch_cvclrprepost",
+    "psynch_rw_rdlock", "psynch_rw_wrlock", "psynch_rw_unlock", "psynch_rw_unlock2",
+    "psynch_rw_longrdlock", "psynch_rw_yieldwrlock", "psynch_rw_downgrade", "psynch_rw_upgrade",
+    "ulock_wait", "ulock_wait2", "ulock_wake",
+    "__semwait_signal", "__old_semwait_signal",
+  ],
+};
+
+// Alternative class names accepted by filters
+export const SYSCALL_CLASS_ALIASES: Record<string, string> = {
+  net: "network",
+  mem: "memory",
+};
+
+// Strip the variant decorations xctrace reports so that e.g. "close" also
+// matches sys_close_nocancel and "mach_port_allocate_trap" matches
+// _kernelrpc_mach_port_allocate_trap
+export function normalizeSyscallName(name: string): string {
+  return name
+    .replace(/^sys_/, "")
+    .replace(/^_kernelrpc_/, "")
+    .replace(/_nocancel$/, "");
+}
+
 // Open flags
 export const O_FLAGS: Record<number, string> = {
   0x0000: "O_RDONLY",
@@ -455,6 +573,301 @@ export const MAP_FLAGS: Record<number, string> = {
   0x1000: "MAP_ANON",
 };
 
+// Socket address families (AF_*)
+export const SOCKET_DOMAINS: Record<number, string> = {
+  0: "AF_UNSPEC",
+  1: "AF_UNIX",
+  2: "AF_INET",
+  17: "AF_ROUTE",
+  27: "AF_NDRV",
+  30: "AF_INET6",
+  32: "AF_SYSTEM",
+  37: "AF_VSOCK",
+};
+
+// Socket types (SOCK_*)
+export const SOCKET_TYPES: Record<number, string> = {
+  1: "SOCK_STREAM",
+  2: "SOCK_DGRAM",
+  3: "SOCK_RAW",
+  4: "SOCK_RDM",
+  5: "SOCK_SEQPACKET",
+};
+
+// IP protocols (IPPROTO_*)
+export const IP_PROTOCOLS: Record<number, string> = {
+  0: "IPPROTO_IP",
+  1: "IPPROTO_ICMP",
+  6: "IPPROTO_TCP",
+  17: "IPPROTO_UDP",
+  41: "IPPROTO_IPV6",
+  58: "IPPROTO_ICMPV6",
+  255: "IPPROTO_RAW",
+};
+
+// Socket option levels (setsockopt/getsockopt)
+export const SOCKOPT_LEVELS: Record<number, string> = {
+  0xffff: "SOL_SOCKET",
+  0: "IPPROTO_IP",
+  6: "IPPROTO_TCP",
+  17: "IPPROTO_UDP",
+  41: "IPPROTO_IPV6",
+};
+
+// SOL_SOCKET options
+export const SOL_SOCKET_OPTIONS: Record<number, string> = {
+  0x0001: "SO_DEBUG",
+  0x0002: "SO_ACCEPTCONN",
+  0x0004: "SO_REUSEADDR",
+  0x0008: "SO_KEEPALIVE",
+  0x0010: "SO_DONTROUTE",
+  0x0020: "SO_BROADCAST",
+  0x0040: "SO_USELOOPBACK",
+  0x0080: "SO_LINGER",
+  0x0100: "SO_OOBINLINE",
+  0x0200: "SO_REUSEPORT",
+  0x0400: "SO_TIMESTAMP",
+  0x0800: "SO_TIMESTAMP_MONOTONIC",
+  0x1001: "SO_SNDBUF",
+  0x1002: "SO_RCVBUF",
+  0x1003: "SO_SNDLOWAT",
+  0x1004: "SO_RCVLOWAT",
+  0x1005: "SO_SNDTIMEO",
+  0x1006: "SO_RCVTIMEO",
+  0x1007: "SO_ERROR",
+  0x1008: "SO_TYPE",
+  0x1020: "SO_NREAD",
+  0x1021: "SO_NKE",
+  0x1022: "SO_NOSIGPIPE",
+  0x1023: "SO_NOADDRERR",
+  0x1024: "SO_NWRITE",
+  0x1025: "SO_REUSESHAREUID",
+  0x1080: "SO_LINGER_SEC",
+  0x1082: "SO_RANDOMPORT",
+  0x1083: "SO_NP_EXTENSIONS",
+  0x1116: "SO_NET_SERVICE_TYPE",
+  0x1119: "SO_NETSVC_MARKING_LEVEL",
+};
+
+// IPPROTO_TCP options
+export const TCP_OPTIONS: Record<number, string> = {
+  0x01: "TCP_NODELAY",
+  0x02: "TCP_MAXSEG",
+  0x04: "TCP_NOOPT",
+  0x08: "TCP_NOPUSH",
+  0x10: "TCP_KEEPALIVE",
+  0x20: "TCP_CONNECTIONTIMEOUT",
+  0x101: "TCP_KEEPINTVL",
+  0x102: "TCP_KEEPCNT",
+  0x103: "TCP_SENDMOREACKS",
+  0x104: "TCP_ENABLE_ECN",
+  0x105: "TCP_FASTOPEN",
+  0x106: "TCP_CONNECTION_INFO",
+  0x201: "TCP_NOTSENT_LOWAT",
+};
+
+// IPPROTO_IP options
+export const IP_OPTIONS: Record<number, string> = {
+  3: "IP_TOS",
+  4: "IP_TTL",
+  7: "IP_RECVDSTADDR",
+  9: "IP_MULTICAST_IF",
+  10: "IP_MULTICAST_TTL",
+  11: "IP_MULTICAST_LOOP",
+  12: "IP_ADD_MEMBERSHIP",
+  13: "IP_DROP_MEMBERSHIP",
+  25: "IP_BOUND_IF",
+  26: "IP_PKTINFO",
+  27: "IP_RECVTOS",
+  28: "IP_DONTFRAG",
+};
+
+// IPPROTO_IPV6 options
+export const IPV6_OPTIONS: Record<number, string> = {
+  4: "IPV6_UNICAST_HOPS",
+  9: "IPV6_MULTICAST_IF",
+  10: "IPV6_MULTICAST_HOPS",
+  11: "IPV6_MULTICAST_LOOP",
+  12: "IPV6_JOIN_GROUP",
+  13: "IPV6_LEAVE_GROUP",
+  27: "IPV6_V6ONLY",
+  35: "IPV6_RECVTCLASS",
+  36: "IPV6_TCLASS",
+  61: "IPV6_RECVPKTINFO",
+  125: "IPV6_BOUND_IF",
+};
+
+// send/recv flags (MSG_*)
+export const MSG_FLAGS: Record<number, string> = {
+  0x1: "MSG_OOB",
+  0x2: "MSG_PEEK",
+  0x4: "MSG_DONTROUTE",
+  0x8: "MSG_EOR",
+  0x10: "MSG_TRUNC",
+  0x20: "MSG_CTRUNC",
+  0x40: "MSG_WAITALL",
+  0x80: "MSG_DONTWAIT",
+  0x100: "MSG_EOF",
+  0x200: "MSG_WAITSTREAM",
+  0x400: "MSG_FLUSH",
+  0x800: "MSG_HOLD",
+  0x1000: "MSG_SEND",
+  0x2000: "MSG_HAVEMORE",
+  0x4000: "MSG_RCVMORE",
+  0x10000: "MSG_NEEDSA",
+  0x80000: "MSG_NOSIGNAL",
+};
+
+// shutdown() directions
+export const SHUTDOWN_HOW: Record<number, string> = {
+  0: "SHUT_RD",
+  1: "SHUT_WR",
+  2: "SHUT_RDWR",
+};
+
+// kern_return_t values returned by Mach traps, including mach_msg's
+// MACH_SEND_* and MACH_RCV_* results
+export const KERN_RETURN_NAMES: Record<number, string> = {
+  0: "KERN_SUCCESS",
+  1: "KERN_INVALID_ADDRESS",
+  2: "KERN_PROTECTION_FAILURE",
+  3: "KERN_NO_SPACE",
+  4: "KERN_INVALID_ARGUMENT",
+  5: "KERN_FAILURE",
+  6: "KERN_RESOURCE_SHORTAGE",
+  7: "KERN_NOT_RECEIVER",
+  8: "KERN_NO_ACCESS",
+  9: "KERN_MEMORY_FAILURE",
+  10: "KERN_MEMORY_ERROR",
+  11: "KERN_ALREADY_IN_SET",
+  12: "KERN_NOT_IN_SET",
+  13: "KERN_NAME_EXISTS",
+  14: "KERN_ABORTED",
+  15: "KERN_INVALID_NAME",
+  16: "KERN_INVALID_TASK",
+  17: "KERN_INVALID_RIGHT",
+  18: "KERN_INVALID_VALUE",
+  19: "KERN_UREFS_OVERFLOW",
+  20: "KERN_INVALID_CAPABILITY",
+  21: "KERN_RIGHT_EXISTS",
+  22: "KERN_INVALID_HOST",
+  23: "KERN_MEMORY_PRESENT",
+  24: "KERN_MEMORY_DATA_MOVED",
+  25: "KERN_MEMORY_RESTART_COPY",
+  26: "KERN_INVALID_PROCESSOR_SET",
+  27: "KERN_POLICY_LIMIT",
+  28: "KERN_INVALID_POLICY",
+  29: "KERN_INVALID_OBJECT",
+  30: "KERN_ALREADY_WAITING",
+  31: "KERN_DEFAULT_SET",
+  32: "KERN_EXCEPTION_PROTECTED",
+  33: "KERN_INVALID_LEDGER",
+  34: "KERN_INVALID_MEMORY_CONTROL",
+  35: "KERN_INVALID_SECURITY",
+  36: "KERN_NOT_DEPRESSED",
+  37: "KERN_TERMINATED",
+  38: "KERN_LOCK_SET_DESTROYED",
+  39: "KERN_LOCK_UNSTABLE",
+  40: "KERN_LOCK_OWNED",
+  41: "KERN_LOCK_OWNED_SELF",
+  42: "KERN_SEMAPHORE_DESTROYED",
+  43: "KERN_RPC_SERVER_TERMINATED",
+  44: "KERN_RPC_TERMINATE_ORPHAN",
+  45: "KERN_RPC_CONTINUE_ORPHAN",
+  46: "KERN_NOT_SUPPORTED",
+  47: "KERN_NODE_DOWN",
+  48: "KERN_NOT_WAITING",
+  49: "KERN_OPERATION_TIMED_OUT",
+  50: "KERN_CODESIGN_ERROR",
+  51: "KERN_POLICY_STATIC",
+  52: "KERN_INSUFFICIENT_BUFFER_SIZE",
+  53: "KERN_DENIED",
+  54: "KERN_MISSING_KC",
+  55: "KERN_INVALID_KC",
+  56: "KERN_NOT_FOUND",
+  0x10000001: "MACH_SEND_IN_PROGRESS",
+  0x10000002: "MACH_SEND_INVALID_DATA",
+  0x10000003: "MACH_SEND_INVALID_DEST",
+  0x10000004: "MACH_SEND_TIMED_OUT",
+  0x10000005: "MACH_SEND_INVALID_VOUCHER",
+  0x10000007: "MACH_SEND_INTERRUPTED",
+  0x10000008: "MACH_SEND_MSG_TOO_SMALL",
+  0x10000009: "MACH_SEND_INVALID_REPLY",
+  0x1000000a: "MACH_SEND_INVALID_RIGHT",
+  0x1000000b: "MACH_SEND_INVALID_NOTIFY",
+  0x1000000c: "MACH_SEND_INVALID_MEMORY",
+  0x1000000d: "MACH_SEND_NO_BUFFER",
+  0x1000000e: "MACH_SEND_TOO_LARGE",
+  0x1000000f: "MACH_SEND_INVALID_TYPE",
+  0x10000010: "MACH_SEND_INVALID_HEADER",
+  0x10000011: "MACH_SEND_INVALID_TRAILER",
+  0x10000012: "MACH_SEND_INVALID_CONTEXT",
+  0x10000015: "MACH_SEND_INVALID_RT_OOL_SIZE",
+  0x10000016: "MACH_SEND_NO_GRANT_DEST",
+  0x10000017: "MACH_SEND_MSG_FILTERED",
+  0x10004001: "MACH_RCV_IN_PROGRESS",
+  0x10004002: "MACH_RCV_INVALID_NAME",
+  0x10004003: "MACH_RCV_TIMED_OUT",
+  0x10004004: "MACH_RCV_TOO_LARGE",
+  0x10004005: "MACH_RCV_INTERRUPTED",
+  0x10004006: "MACH_RCV_PORT_CHANGED",
+  0x10004007: "MACH_RCV_INVALID_NOTIFY",
+  0x10004008: "MACH_RCV_INVALID_DATA",
+  0x10004009: "MACH_RCV_PORT_DIED",
+  0x1000400a: "MACH_RCV_IN_SET",
+  0x1000400b: "MACH_RCV_HEADER_ERROR",
+  0x1000400c: "MACH_RCV_BODY_ERROR",
+  0x1000400d: "MACH_RCV_INVALID_TYPE",
+  0x1000400e: "MACH_RCV_SCATTER_SMALL",
+  0x1000400f: "MACH_RCV_INVALID_TRAILER",
+  0x10004011: "MACH_RCV_IN_PROGRESS_TIMED",
+  0x10004012: "MACH_RCV_INVALID_REPLY",
+};
+
+// mach_msg option bits (MACH_SEND_*, MACH_RCV_*); trailer requests in the
+// top byte are formatted separately
+export const MACH_MSG_OPTIONS: Record<number, string> = {
+  0x1: "MACH_SEND_MSG",
+  0x2: "MACH_RCV_MSG",
+  0x4: "MACH_RCV_LARGE",
+  0x8: "MACH_RCV_LARGE_IDENTITY",
+  0x10: "MACH_SEND_TIMEOUT",
+  0x20: "MACH_SEND_OVERRIDE",
+  0x40: "MACH_SEND_INTERRUPT",
+  0x80: "MACH_SEND_NOTIFY",
+  0x100: "MACH_RCV_TIMEOUT",
+  0x400: "MACH_RCV_INTERRUPT",
+  0x800: "MACH_RCV_VOUCHER",
+  0x1000: "MACH_RCV_GUARDED_DESC",
+  0x4000: "MACH_RCV_SYNC_WAIT",
+  0x8000: "MACH_RCV_SYNC_PEEK",
+  0x10000: "MACH_SEND_ALWAYS",
+  0x20000: "MACH_SEND_TRAILER",
+  0x40000: "MACH_SEND_NOIMPORTANCE",
+  0x100000: "MACH_SEND_SYNC_OVERRIDE",
+  0x200000: "MACH_SEND_PROPAGATE_QOS",
+  0x800000: "MACH_SEND_SYNC_BOOTSTRAP_CHECKIN",
+};
+
+// vm_allocate/vm_map flags; VM_FLAGS_FIXED is the absence of
+// VM_FLAGS_ANYWHERE and the top byte holds a VM_MAKE_TAG() memory tag
+export const VM_FLAGS: Record<number, string> = {
+  0x1: "VM_FLAGS_ANYWHERE",
+  0x2: "VM_FLAGS_PURGABLE",
+  0x4: "VM_FLAGS_4GB_CHUNK",
+  0x8: "VM_FLAGS_RANDOM_ADDR",
+  0x10: "VM_FLAGS_NO_CACHE",
+  0x20: "VM_FLAGS_RESILIENT_CODESIGN",
+  0x40: "VM_FLAGS_RESILIENT_MEDIA",
+  0x80: "VM_FLAGS_PERMANENT",
+  0x1000: "VM_FLAGS_TPRO",
+  0x4000: "VM_FLAGS_OVERWRITE",
+  0x10000: "VM_FLAGS_SUPERPAGE_SIZE_ANY",
+  0x20000: "VM_FLAGS_SUPERPAGE_SIZE_2MB",
+  0x100000: "VM_FLAGS_RETURN_DATA_ADDR",
+  0x800000: "VM_FLAGS_RETURN_4K_DATA_ADDR",
+};
+
 // fcntl commands
 export const FCNTL_CMDS: Record<number, string> = {
   0: "F_DUPFD",
@@ -482,13 +895,15 @@ export const FCNTL_CMDS: Record<number, string> = {
   55: "F_FREEZE_FS",
   56: "F_THAW_FS",
   57: "F_GLOBAL_NOCACHE",
-  61: "F_ADDSIGS",
-  62: "F_ADDFILESIGS",
-  63: "F_NODIRECT",
-  64: "F_GETPROTECTIONCLASS",
-  65: "F_SETPROTECTIONCLASS",
-  66: "F_LOG2PHYS_EXT",
-  67: "F_GETLKPID",
+  59: "F_ADDSIGS",
+  60: "F_MARKDEPENDENCY",
+  61: "F_ADDFILESIGS",
+  62: "F_NODIRECT",
+  63: "F_GETPROTECTIONCLASS",
+  64: "F_SETPROTECTIONCLASS",
+  65: "F_LOG2PHYS_EXT",
+  66: "F_GETLKPID",
+  67: "F_DUPFD_CLOEXEC",
   70: "F_SETBACKINGSTORE",
   71: "F_GETPATH_MTMINFO",
   72: "F_GETCODEDIR",
@@ -511,6 +926,44 @@ export const FCNTL_CMDS: Record<number, string> = {
   105: "F_GETSIGSINFO",
 };
 
+// Signal numbers (sys/signal.h)
+export const SIGNAL_NAMES: Record<number, string> = {
+  1: "SIGHUP",
+  2: "SIGINT",
+  3: "SIGQUIT",
+  4: "SIGILL",
+  5: "SIGTRAP",
+  6: "SIGABRT",
+  7: "SIGEMT",
+  8: "SIGFPE",
+  9: "SIGKILL",
+  10: "SIGBUS",
+  11: "SIGSEGV",
+  12: "SIGSYS",
+  13: "SIGPIPE",
+  14: "SIGALRM",
+  15: "SIGTERM",
+  16: "SIGURG",
+  17: "SIGSTOP",
+  18: "SIGTSTP",
+  19: "SIGCONT",
+  20: "SIGCHLD",
+  21: "SIGTTIN",
+  22: "SIGTTOU",
+  23: "SIGIO",
+  24: "SIGXCPU",
+  25: "SIGXFSZ",
+  26: "SIGVTALRM",
+  27: "SIGPROF",
+  28: "SIGWINCH",
+  29: "SIGINFO",
+  30: "SIGUSR1",
+  31: "SIGUSR2",
+};
+
+// Signals whose default action is to ignore them or stop the process
+export const NONFATAL_SIGNALS = new Set([16, 17, 18, 19, 20, 21, 22, 23, 28, 29]);
+
 // Errno values
 export const ERRNO_NAMES: Record<number, string> = {
   1: "EPERM",
@@ -621,6 +1074,116 @@ export const ERRNO_NAMES: Record<number, string> = {
   106: "EQFULL",
 };
 
+// Error messages (strerror) for each errno value, as xctrace prints them
+export const ERRNO_MESSAGES: Record<number, string> = {
+  1: "Operation not permitted",
+  2: "No such file or directory",
+  3: "No such process",
+  4: "Interrupted system call",
+  5: "Input/output error",
+  6: "Device not configured",
+  7: "Argument list too long",
+  8: "Exec format error",
+  9: "Bad file descriptor",
+  10: "No child processes",
+  11: "Resource deadlock avoided",
+  12: "Cannot allocate memory",
+  13: "Permission denied",
+  14: "Bad address",
+  15: "Block device required",
+  16: "Resource busy",
+  17: "File exists",
+  18: "Cross-device link",
+  19: "Operation not supported by device",
+  20: "Not a directory",
+  21: "Is a directory",
+  22: "Invalid argument",
+  23: "Too many open files in system",
+  24: "Too many open files",
+  25: "Inappropriate ioctl for device",
+  26: "Text file busy",
+  27: "File too large",
+  28: "No space left on device",
+  29: "Illegal seek",
+  30: "Read-only file system",
+  31: "Too many links",
+  32: "Broken pipe",
+  33: "Numerical argument out of domain",
+  34: "Result too large",
+  35: "Resource temporarily unavailable",
+  36: "Operation now in progress",
+  37: "Operation already in progress",
+  38: "Socket operation on non-socket",
+  39: "Destination address required",
+  40: "Message too long",
+  41: "Protocol wrong type for socket",
+  42: "Protocol not available",
+  43: "Protocol not supported",
+  44: "Socket type not supported",
+  45: "Operation not supported",
+  46: "Protocol family not supported",
+  47: "Address family not supported by protocol family",
+  48: "Address already in use",
+  49: "Can't assign requested address",
+  50: "Network is down",
+  51: "Network is unreachable",
+  52: "Network dropped connection on reset",
+  53: "Software caused connection abort",
+  54: "Connection reset by peer",
+  55: "No buffer space available",
+  56: "Socket is already connected",
+  57: "Socket is not connected",
+  58: "Can't send after socket shutdown",
+  59: "Too many references: can't splice",
+  60: "Operation timed out",
+  61: "Connection refused",
+  62: "Too many levels of symbolic links",
+  63: "File name too long",
+  64: "Host is down",
+  65: "No route to host",
+  66: "Directory not empty",
+  67: "Too many processes",
+  68: "Too many users",
+  69: "Disc quota exceeded",
+  70: "Stale NFS file handle",
+  71: "Too many levels of remote in path",
+  72: "RPC struct is bad",
+  73: "RPC version wrong",
+  74: "RPC prog. not avail",
+  75: "Program version wrong",
+  76: "Bad procedure for program",
+  77: "No locks available",
+  78: "Function not implemented",
+  79: "Inappropriate file type or format",
+  80: "Authentication error",
+  81: "Need authenticator",
+  82: "Device power is off",
+  83: "Device error",
+  84: "Value too large to be stored in data type",
+  85: "Bad executable (or shared library)",
+  86: "Bad CPU type in executable",
+  87: "Shared library version mismatch",
+  88: "Malformed Mach-o file",
+  89: "Operation canceled",
+  90: "Identifier removed",
+  91: "No message of desired type",
+  92: "Illegal byte sequence",
+  93: "Attribute not found",
+  94: "Bad message",
+  95: "EMULTIHOP (Reserved)",
+  96: "No message available on STREAM",
+  97: "ENOLINK (Reserved)",
+  98: "No STREAM resources",
+  99: "Not a STREAM",
+  100: "Protocol error",
+  101: "STREAM ioctl timeout",
+  102: "Operation not supported on socket",
+  103: "Policy not found",
+  104: "State not recoverable",
+  105: "Previous owner died",
+  106: "Interface output queue is full",
+};
+
 export function getSyscallName(num: number): string {
   return SYSCALL_NAMES[num] ?? `syscall_${num}`;
 }
@@ -679,9 +1242,111 @@ export function formatMapFlags(flags: number): string {
   return parts.join("|") || "0";
 }
 
+// Format a failed return like strace: "-1 ENOENT (No such file or directory)"
 export function formatErrno(errno: number): string {
-  const name = ERRNO_NAMES[errno];
-  return name ? `-1 ${name} (${errno})` : `-1 (${errno})`;
+  const name = ERRNO_NAMES[errno] ?? "E???";
+  return `-1 ${name} (${ERRNO_MESSAGES[errno] ?? `errno ${errno}`})`;
+}
+
+// Reverse lookups for parseErrno
+const ERRNO_BY_NAME = new Map(Object.entries(ERRNO_NAMES).map(([n, name]) => [name, Number(n)]));
+const ERRNO_BY_MESSAGE = new Map(
+  Object.entries(ERRNO_MESSAGES).map(([n, msg]) => [msg.toLowerCase(), Number(n)])
+);
+
+// Map xctrace's errno text (a strerror message, an errno name or a bare
+// number) back to the errno value
+export function parseErrno(text: string | undefined): number | undefined {
+  if (!text) return undefined;
+  const trimmed = text.trim();
+
+  const byMessage = ERRNO_BY_MESSAGE.get(trimmed.toLowerCase());
+  if (byMessage !== undefined) return byMessage;
+
+  const name = trimmed.match(/\bE[A-Z0-9]+\b/)?.[0];
+  const byName = name ? ERRNO_BY_NAME.get(name) : undefined;
+  if (byName !== undefined) return byName;
+
+  const num = trimmed.match(/\b(\d+)\b/)?.[1];
+  return num !== undefined && ERRNO_NAMES[Number(num)] ? Number(num) : undefined;
+}
+
+export function formatSocketDomain(domain: number): string {
+  return SOCKET_DOMAINS[domain] ?? String(domain);
+}
+
+// Format a bit mask as NAME|NAME, with unknown bits appended in hex
+export function formatBitFlags(flags: number, table: Record<number, string>): string {
+  if (flags === 0) return "0";
+
+  const parts: string[] = [];
+  let rest = flags;
+  for (const [value, name] of Object.entries(table)) {
+    const bit = Number(value);
+    if (bit !== 0 && (flags & bit) === bit) {
+      parts.push(name);
+      rest &= ~bit;
+    }
+  }
+  if (rest !== 0) parts.push(`0x${rest.toString(16)}`);
+
+  return parts.join("|");
+}
+
+export function formatSocketType(type: number): string {
+  return SOCKET_TYPES[type] ?? String(type);
+}
+
+// Protocols only have IPPROTO_ names in the internet domains
+export function formatSocketProtocol(domain: number, protocol: number): string {
+  const inet = domain === 2 || domain === 30;
+  return (inet && IP_PROTOCOLS[protocol]) || String(protocol);
+}
+
+export function formatSockoptLevel(level: number): string {
+  return SOCKOPT_LEVELS[level] ?? String(level);
+}
+
+export function formatSockoptName(level: number, name: number): string {
+  const table = level === 0xffff ? SOL_SOCKET_OPTIONS
+    : level === 6 ? TCP_OPTIONS
+    : level === 0 ? IP_OPTIONS
+    : level === 41 ? IPV6_OPTIONS
+    : undefined;
+  return table?.[name] ?? String(name);
+}
+
+export function formatMsgFlags(flags: number): string {
+  return formatBitFlags(flags, MSG_FLAGS);
+}
+
+export function formatShutdownHow(how: number): string {
+  return SHUTDOWN_HOW[how] ?? String(how);
+}
+
+export function formatSignal(sig: number): string {
+  return SIGNAL_NAMES[sig] ?? String(sig);
+}
+
+export function formatKernReturn(kr: number): string {
+  return KERN_RETURN_NAMES[kr] ?? `0x${kr.toString(16)}`;
+}
+
+export function formatMachMsgOptions(options: number): string {
+  const elements = (options >>> 24) & 0xf;
+  const type = (options >>> 28) & 0xf;
+  const parts = [formatBitFlags(options & 0xffffff, MACH_MSG_OPTIONS)].filter((p) => p !== "0");
+  if (elements) parts.push(`MACH_RCV_TRAILER_ELEMENTS(${elements})`);
+  if (type) parts.push(`MACH_RCV_TRAILER_TYPE(${type})`);
+  return parts.length ? parts.join("|") : "0";
+}
+
+export function formatVmFlags(flags: number): string {
+  const tag = flags >>> 24;
+  const parts = [(flags & 0x1) ? "" : "VM_FLAGS_FIXED", formatBitFlags(flags & 0xffffff, VM_FLAGS)]
+    .filter((p) => p && p !== "0");
+  if (tag) parts.push(`VM_MAKE_TAG(${tag})`);
+  return parts.join("|");
 }
 
 export function formatFcntlCmd(cmd: number): string {
@@ -0,0 +1,136 @@
+// Nanoseconds per unit, as printed by xctrace in duration fmt strings
+const DURATION_UNITS: Record<string, number> = {
+  ns: 1,
+  "µs": 1e3,
+  "μs": 1e3, // Greek mu, in case the export uses it
+  us: 1e3,
+  ms: 1e6,
+  s: 1e9,
+  min: 60e9,
+  h: 3600e9,
+};
+
+// Parse an xctrace duration like "542 ns" or "5.75 µs" into nanoseconds
+export function parseDuration(s: string | undefined): number | undefined {
+  if (!s) return undefined;
+  const match = s.trim().match(/^([\d.]+)\s*([a-zµμ]+)$/i);
+  if (!match) return undefined;
+
+  const scale = DURATION_UNITS[match[2]!];
+  const value = parseFloat(match[1]!);
+  if (scale === undefined || isNaN(value)) return undefined;
+
+  return Math.round(value * scale);
+}
+
+// Parse an xctrace timestamp like "00:00.262.123" (mm:ss.ms.µs) or
+// "01:02:03.262.123.456" (hh:mm:ss.ms.µs.ns) into nanoseconds
+export function parseTimestamp(s: string | undefined): number | undefined {
+  if (!s) return undefined;
+  const parts = s.trim().split(":");
+  const last = parts.pop();
+  if (!last) return undefined;
+
+  // Seconds followed by up to three groups of sub-second digits
+  const [sec, ...fractions] = last.split(".");
+  let ns = parseInt(sec ?? "", 10) * 1e9;
+  if (isNaN(ns)) return undefined;
+
+  let scale = 1e9;
+  for (const fraction of fractions) {
+    scale /= 1000;
+    ns += parseInt(fraction, 10) * scale;
+  }
+
+  // Remaining parts are minutes, then hours
+  let unit = 60e9;
+  for (const part of parts.reverse()) {
+    const val = parseInt(part, 10);
+    if (isNaN(val)) return undefined;
+    ns += val * unit;
+    unit *= 60;
+  }
+
+  return Math.round(ns);
+}
+
+// Format nanoseconds the way xctrace prints start times ("00:00.262.123")
+export function formatTimestamp(ns: number): string {
+  const totalUs = Math.floor(ns / 1e3);
+  const minutes = Math.floor(totalUs / 60e6);
+  const seconds = Math.floor(totalUs / 1e6) % 60;
+  const ms = Math.floor(totalUs / 1e3) % 1000;
+  const us = totalUs % 1000;
+  return `${String(minutes).padStart(2, "0")}:${String(seconds).padStart(2, "0")}.` +
+    `${String(ms).padStart(3, "0")}.${String(us).padStart(3, "0")}`;
+}
+
+// Format nanoseconds as seconds with microsecond precision ("0.000123")
+export function formatSeconds(ns: number, digits = 6): string {
+  return (ns / 1e9).toFixed(digits);
+}
+
+// Format nanoseconds with a readable unit ("542ns", "5.75µs", "1.20ms")
+export function formatDuration(ns: number): string {
+  if (ns < 1e3) return `${Math.round(ns)}ns`;
+  if (ns < 1e6) return `${(ns / 1e3).toFixed(ns < 1e4 ? 2 : ns < 1e5 ? 1 : 0)}µs`;
+  if (ns < 1e9) return `${(ns / 1e6).toFixed(ns < 1e7 ? 2 : ns < 1e8 ? 1 : 0)}ms`;
+  return `${(ns / 1e9).toFixed(2)}s`;
+}
+
+// Timestamp column styles: seconds since the trace started, strace's -t
+// (wall clock), -tt (with fractions), -ttt (epoch seconds), -r (since the
+// previous event), or none
+export type TimestampStyle = "elapsed" | "none" | "t" | "tt" | "ttt" | "r";
+
+export interface TimestampOptions {
+  style?: TimestampStyle;
+  // Digits after the decimal point (default 3 for elapsed, 6 otherwise)
+  precision?: number;
+  // Wall-clock time the trace started, for -t/-tt/-ttt; without it absolute
+  // timestamps count from midnight UTC
+  startDate?: Date;
+}
+
+function pad2(n: number): string {
+  return String(n).padStart(2, "0");
+}
+
+// Format a trace-relative timestamp in one of strace's absolute styles
+function formatAbsolute(ns: number, style: "t" | "tt" | "ttt", digits: number, startDate?: Date): string {
+  // Epoch nanoseconds are past 2^53, so keep whole seconds and the
+  // nanoseconds into the second apart
+  const startMs = startDate?.getTime() ?? 0;
+  const intoSecondNs = (startMs % 1000) * 1e6 + ns;
+  const seconds = Math.floor(startMs / 1000) + Math.floor(intoSecondNs / 1e9);
+  const fraction = String(Math.floor((intoSecondNs % 1e9) / 10 ** (9 - digits))).padStart(digits, "0");
+  const withFraction = (s: string) => digits > 0 ? `${s}.${fraction}` : s;
+
+  if (style === "ttt") return withFraction(String(seconds));
+
+  const date = new Date(seconds * 1000);
+  const hms = startDate
+    ? `${pad2(date.getHours())}:${pad2(date.getMinutes())}:${pad2(date.getSeconds())}`
+    : `${pad2(date.getUTCHours())}:${pad2(date.getUTCMinutes())}:${pad2(date.getUTCSeconds())}`;
+  return style === "t" ? hms : withFraction(hms);
+}
+
+// Create a formatter for event start times (ns since the trace started). It
+// keeps the previous timestamp for -r, so use one per output stream.
+export function createTimestampFormatter(options: TimestampOptions = {}): (ns: number) => string {
+  const style = options.style ?? "elapsed";
+  const digits = options.precision ?? (style === "elapsed" ? 3 : 6);
+  let previousNs: number | undefined;
+
+  return (ns) => {
+    const previous = previousNs ?? ns;
+    previousNs = ns;
+
+    switch (style) {
+      case "none": return "";
+      case "elapsed": return formatSeconds(ns, digits);
+      case "r": return formatSeconds(ns - previous, digits);
+      default: return formatAbsolute(ns, style, digits, options.startDate);
+    }
+  };
+}
@@ -0,0 +1,77 @@
+import type { TraceEvent } from "./exporter";
+import { decodeArgs, formatReturnValue, isErrorEvent } from "./formatter";
+
+// Chrome Trace Event Format, as read by Perfetto UI and chrome://tracing.
+// See https://docs.google.com/document/d/1CvAClvFfyA5R-PhYUmn5OOQtYMH4h6I0nSsKchNAySU
+interface ChromeTraceEvent {
+  name: string;
+  cat?: string;
+  ph: "X" | "M";
+  ts?: number;
+  dur?: number;
+  pid: number;
+  tid: number;
+  args?: Record<string, unknown>;
+}
+
+function toChromeEvent(event: TraceEvent): ChromeTraceEvent {
+  const error = isErrorEvent(event);
+
+  const args: Record<string, unknown> = {
+    args: decodeArgs(event).join(", "),
+    rawArgs: event.args ?? [],
+    result: formatReturnValue(event) ?? null,
+  };
+  if (error) {
+    args.errno = event.errnoCode ?? null;
+    args.errnoName = event.errnoName ?? null;
+    args.error = event.errno;
+  }
+
+  // Timestamps and durations are in microseconds
+  return {
+    name: event.syscall,
+    cat: error ? "syscall,error" : "syscall",
+    ph: "X",
+    ts: event.startNs / 1000,
+    dur: (event.durationNs ?? 0) / 1000,
+    pid: event.pid ?? 0,
+    tid: event.tid ?? event.pid ?? 0,
+    args,
+  };
+}
+
+// Write events as a Chrome trace JSON object, one element per line, as they
+// arrive. Process and thread name metadata is emitted when a pid/tid is first seen.
+export function createTimelineWriter(write: (s: string) => void) {
+  const seenPids = new Set<number>();
+  const seenTids = new Set<number>();
+  let count = 0;
+
+  function emit(event: ChromeTraceEvent): void {
+    write((count++ === 0 ? '{"traceEvents":[\n' : ",\n") + JSON.stringify(event));
+  }
+
+  return {
+    add(event: TraceEvent): void {
+      const chrome = toChromeEvent(event);
+
+      if (!seenPids.has(chrome.pid)) {
+        seenPids.add(chrome.pid);
+        const name = event.process?.replace(/\s*\(\d+\)$/, "") ?? "?";
+        emit({ name: "process_name", ph: "M", pid: chrome.pid, tid: 0, args: { name } });
+      }
+      if (!seenTids.has(chrome.tid)) {
+        seenTids.add(chrome.tid);
+        const tid = `0x${chrome.tid.toString(16)}`;
+        const name = event.threadName ? `${event.threadName} ${tid}` : tid;
+        emit({ name: "thread_name", ph: "M", pid: chrome.pid, tid: chrome.tid, args: { name } });
+      }
+
+      emit(chrome);
+    },
+    end(): void {
+      write((count === 0 ? '{"traceEvents":[' : "\n") + '],"displayTimeUnit":"ns"}\n');
+    },
+  };
+}
@@ -1,6 +1,6 @@
 import { randomUUID } from "crypto";
 import { tmpdir } from "os";
-import { join } from "path";
+import { join, resolve } from "path";
 import type { Subprocess } from "bun";
 
 export interface TraceResult {
@@ -8,34 +8,69 @@ export interface TraceResult {
   exitCode: number;
 }
 
+export interface RecordOptions {
+  // Attach to an already running process instead of launching the command
+  attachPid?: number;
+  // Stop recording after this long (xctrace --time-limit syntax, e.g. "10s")
+  duration?: string;
+  // Where to write the .trace bundle (default: a temporary file)
+  output?: string;
+  // Instruments template to record with (default "System Trace")
+  template?: string;
+  // Extra instruments to add to the template, by name
+  instruments?: string[];
+  // Environment variables to set for the launched command
+  env?: Record<string, string>;
+  // Working directory of the launched command
+  cwd?: string;
+  // Forward our stdin to the launched command (otherwise it reads nothing)
+  stdin?: boolean;
+}
+
 let activeProc: Subprocess | null = null;
 
-// Patterns for xctrace status messages to filter out
-const XCTRACE_PATTERNS = [
-  /^Starting recording/,
-  /^Ctrl-C to stop/,
-  /^Target app exited/,
-  /^Recording completed/,
-  /^Recording stopped/,
-  /^Recording failed/,
-  /^Output file saved/,
-  /^Saving output file/,
-  /^Run issues were detected/,
-  /^\* \[/,
+// Prefixes of xctrace status messages to filter out
+const XCTRACE_PREFIXES = [
+  "Starting recording",
+  "Ctrl-C to stop",
+  "Target app exited",
+  "Recording completed",
+  "Recording stopped",
+  "Output file saved",
+  "Saving output file",
+  "Run issues were detected",
+  "* [",
 ];
 
 function isXctraceMessage(line: string): boolean {
-  return XCTRACE_PATTERNS.some((p) => p.test(line));
+  return XCTRACE_PREFIXES.some((p) => line.startsWith(p));
+}
+
+// Whether an unfinished line could still turn into an xctrace message
+function mayBeXctraceMessage(partial: string): boolean {
+  return XCTRACE_PREFIXES.some((p) => p.startsWith(partial) || partial.startsWith(p));
 }
 
-export async function runTrace(command: string[]): Promise<TraceResult> {
-  const traceFile = join(tmpdir(), `mactrace-${randomUUID()}.trace`);
+// Find the pid of a running process by its exact name
+export async function findProcess(name: string): Promise<number> {
+  const result = await Bun.$`pgrep -x ${name}`.quiet().nothrow();
+  const pids = result.stdout.toString().split("\n").filter(Boolean).map(Number);
 
-  // Resolve the command to an absolute path
-  const resolvedCmd = Bun.which(command[0]);
-  if (!resolvedCmd) {
-    throw new Error(`Command not found: ${command[0]}`);
+  if (pids.length === 0) {
+    throw new Error(`No running process named ${name}`);
+  }
+  if (pids.length > 1) {
+    throw new Error(`Multiple processes named ${name} (pids ${pids.join(", ")}), use -p to pick one`);
   }
+  return pids[0]!;
+}
+
+export async function runTrace(
+  command: string[],
+  options: RecordOptions = {}
+): Promise<TraceResult> {
+  // xctrace runs in the target's working directory, so keep the output where the user asked
+  const traceFile = options.output ? resolve(options.output) : join(tmpdir(), `mactrace-${randomUUID()}.trace`);
 
   const xctraceArgs = [
     "xcrun",
@@ -43,22 +78,52 @@ export async function runTrace(command: string[]): Promise<TraceResult> {
     "record",
     "--no-prompt",
     "--template",
-    "System Trace",
+    options.template ?? "System Trace",
     "--output",
     traceFile,
-    "--target-stdout",
-    "-",
-    "--launch",
-    "--",
-    resolvedCmd,
-    ...command.slice(1),
   ];
 
+  for (const instrument of options.instruments ?? []) {
+    xctraceArgs.push("--instrument", instrument);
+  }
+
+  if (options.duration) {
+    xctraceArgs.push("--time-limit", options.duration);
+  }
+
+  if (options.attachPid !== undefined) {
+    xctraceArgs.push("--attach", String(options.attachPid));
+  } else {
+    // Resolve the command to an absolute path
+    const resolvedCmd = Bun.which(command[0] ?? "", { cwd: options.cwd });
+    if (!resolvedCmd) {
+      throw new Error(`Command not found: ${command[0]}`);
+    }
+
+    // The command inherits xctrace's environment; --env sets variables on top
+    for (const [name, value] of Object.entries(options.env ?? {})) {
+      xctraceArgs.push("--env", `${name}=${value}`);
+    }
+
+    if (options.stdin) {
+      xctraceArgs.push("--target-stdin", "-");
+    }
+
+    xctraceArgs.push(
+      "--target-stdout",
+      "-",
+      "--launch",
+      "--",
+      resolvedCmd,
+      ...command.slice(1),
+    );
+  }
+
   const proc = Bun.spawn(xctraceArgs, {
-    stdin: "ignore",
+    stdin: options.stdin ? "inherit" : "ignore",
     stdout: "pipe",
     stderr: "pipe",
-    env: process.env,
+    cwd: options.cwd,
   });
 
   activeProc = proc;
@@ -80,6 +145,8 @@ export async function runTrace(command: string[]): Promise<TraceResult> {
     const reader = stream.getReader();
     const decoder = new TextDecoder();
     let buf = "";
+    // The start of the current line was already written
+    let started = false;
 
     while (true) {
       const { done, value } = await reader.read();
@@ -90,14 +157,22 @@ export async function runTrace(command: string[]): Promise<TraceResult> {
       buf = lines.pop() || "";
 
       for (const line of lines) {
-        if (!isXctraceMessage(line)) {
+        if (started || !isXctraceMessage(line)) {
           out.write(line + "\n");
         }
+        started = false;
+      }
+
+      // Show prompts without waiting for the end of the line
+      if (buf && (started || !mayBeXctraceMessage(buf))) {
+        out.write(buf);
+        buf = "";
+        started = true;
       }
     }
 
     // Remaining buffer
-    if (buf && !isXctraceMessage(buf)) {
+    if (buf && (started || !isXctraceMessage(buf))) {
       out.write(buf + "\n");
     }
     reader.releaseLock();
@@ -0,0 +1,389 @@
+import type { TraceEvent } from "./exporter";
+import {
+  formatEvent, decodeArgs, formatReturnValue, isErrorEvent, formatThread, type EventField,
+} from "./formatter";
+import {
+  parseTraceExpression, matchesSyscall, parseStatusExpression, matchesStatus,
+  parseThreadExpression, matchesThread,
+  type SyscallFilter, type StatusFilter, type ThreadFilter,
+} from "./filter";
+
+export interface ViewerOptions {
+  // Shown in the title bar, e.g. the trace's file name
+  title?: string;
+  // Initial filter, in the syntax of the "f" prompt
+  filter?: string;
+}
+
+// A filter typed at the "f" prompt: "open,%net pid=123 tid=0x1f2a errno=ENOENT".
+// Bare words are a trace expression; errno takes a status expression.
+interface ViewFilter {
+  syscalls?: SyscallFilter;
+  pids?: Set<number>;
+  threads?: ThreadFilter;
+  status?: StatusFilter;
+}
+
+function parseViewFilter(text: string): ViewFilter {
+  const filter: ViewFilter = {};
+  const syscalls: string[] = [];
+
+  for (const word of text.trim().split(/\s+/).filter(Boolean)) {
+    const eq = word.indexOf("=");
+    const key = eq < 0 ? "trace" : word.slice(0, eq);
+    const value = eq < 0 ? word : word.slice(eq + 1);
+
+    if (key === "pid") {
+      const pids = value.split(",").map(Number);
+      if (pids.some((pid) => !Number.isInteger(pid))) throw new Error(`Bad pid: ${value}`);
+      filter.pids = new Set(pids);
+    } else if (key === "tid") {
+      filter.threads = parseThreadExpression(value);
+    } else if (key === "errno") {
+      filter.status = parseStatusExpression(value);
+    } else if (key === "trace") {
+      syscalls.push(value);
+    } else {
+      throw new Error(`Unknown filter: ${key}= (expected pid=, tid=, errno= or syscall names)`);
+    }
+  }
+
+  if (syscalls.length > 0) filter.syscalls = parseTraceExpression(syscalls.join(","));
+  return filter;
+}
+
+function matchesViewFilter(filter: ViewFilter, event: TraceEvent): boolean {
+  return (!filter.syscalls || matchesSyscall(filter.syscalls, event.syscall)) &&
+    (!filter.pids || filter.pids.has(event.pid ?? 0)) &&
+    (!filter.threads || matchesThread(filter.threads, event)) &&
+    (!filter.status || matchesStatus(filter.status, event));
+}
+
+// Cut a line to a number of visible characters, keeping its color codes
+function truncate(line: string, width: number): string {
+  let out = "";
+  let visible = 0;
+  for (const part of line.split(/(\x1b\[[0-9;]*m)/)) {
+    if (part.startsWith("\x1b[")) {
+      out += part;
+      continue;
+    }
+    const chars = [...part];
+    if (visible + chars.length > width) {
+      return out + chars.slice(0, width - visible).join("") + "\x1b[0m";
+    }
+    out += part;
+    visible += chars.length;
+  }
+  return out;
+}
+
+// Key names for the escape sequences terminals send
+const KEY_NAMES: Record<string, string> = {
+  "\x1b[A": "up", "\x1bOA": "up",
+  "\x1b[B": "down", "\x1bOB": "down",
+  "\x1b[5~": "pageup", "\x1b[6~": "pagedown",
+  "\x1b[H": "home", "\x1bOH": "home", "\x1b[1~": "home", "\x1b[7~": "home",
+  "\x1b[F": "end", "\x1bOF": "end", "\x1b[4~": "end", "\x1b[8~": "end",
+  "\x1b": "escape", "\r": "enter", "\n": "enter",
+  "\x7f": "backspace", "\b": "backspace",
+  "\x03": "ctrl-c", "\x06": "pagedown", "\x02": "pageup",
+};
+
+// Split terminal input into keys: escape sequences, or single characters
+function splitKeys(data: string): string[] {
+  const keys = data.match(/\x1b\[[0-9;]*[~A-Za-z]|\x1bO[A-Za-z]|[\s\S]/gu) ?? [];
+  return keys.map((key) => KEY_NAMES[key] ?? key);
+}
+
+// Every parsed field of an event, for the detail pane: the decoded call,
+// then the raw signature and args, then the rest
+function detailLines(event: TraceEvent): string[] {
+  const error = isErrorEvent(event) ? ` ${event.errnoName} (${event.errno})` : "";
+  const call = `${event.syscall}(${decodeArgs(event).join(", ")}) = ${formatReturnValue(event) ?? "?"}${error}`;
+  const fields: [string, unknown][] = [
+    ["call", call],
+    ["signature", event.signature],
+    ["args", event.args],
+    ["thread", formatThread(event)],
+    ...Object.entries(event).filter(([key]) => key !== "signature" && key !== "args"),
+  ];
+
+  return fields
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key.padEnd(11)}${Array.isArray(value) ? `[${value.join(", ")}]` : String(value)}`);
+}
+
+const HELP = "j/k move  space/b page  g/G top/end  / search  n/N next/prev  f filter  e/E next/prev error  enter details  q quit";
+
+// Full-screen browser over a list of events: scroll, incremental search,
+// live filtering, jumping between errors and a detail pane. It only uses
+// plain ANSI escape sequences, so it works in any terminal, also over SSH.
+// Resolves when the user quits.
+export function runViewer(events: TraceEvent[], options: ViewerOptions = {}): Promise<void> {
+  const stdin = process.stdin;
+  const stdout = process.stdout;
+  if (!stdin.isTTY || !stdout.isTTY) {
+    return Promise.reject(new Error("The viewer needs a terminal"));
+  }
+
+  // Positions in events that pass the filter
+  let visible: number[] = [];
+  // Selected row and first row on screen, as positions in visible
+  let cursor = 0;
+  let top = 0;
+  let showDetail = false;
+
+  let mode: "list" | "search" | "filter" = "list";
+  let input = "";
+  let search = "";
+  let searchOrigin = 0;
+  let filterText = options.filter ?? "";
+  let filterOrigin = filterText;
+  let message = "";
+
+  const widths = new Map<EventField, number>();
+  // Uncolored lines, for searching
+  const plain: (string | undefined)[] = [];
+  function plainLine(index: number): string {
+    return plain[index] ??= formatEvent(events[index]!, { color: false, widths }).toLowerCase();
+  }
+
+  function applyFilter(text: string): void {
+    const filter = parseViewFilter(text);
+    const selected = visible[cursor];
+    visible = [];
+    events.forEach((event, i) => {
+      if (matchesViewFilter(filter, event)) visible.push(i);
+    });
+    // Stay on the selected event, or the first one after it
+    const next = selected === undefined ? -1 : visible.findIndex((i) => i >= selected);
+    cursor = next < 0 ? Math.max(0, visible.length - 1) : next;
+    filterText = text;
+  }
+
+  function rows(): number {
+    return stdout.rows || 24;
+  }
+
+  function columns(): number {
+    return stdout.columns || 80;
+  }
+
+  // Fields of the selected event, when the detail pane is open
+  function details(): string[] {
+    const selected = visible[cursor];
+    return showDetail && selected !== undefined ? detailLines(events[selected]!) : [];
+  }
+
+  // The detail pane fits its fields (plus a separator), leaving a few rows of the list
+  function detailHeight(): number {
+    return showDetail ? Math.min(details().length + 1, rows() - 5) : 0;
+  }
+
+  function listHeight(): number {
+    return Math.max(1, rows() - 2 - detailHeight());
+  }
+
+  function moveTo(position: number): void {
+    cursor = Math.max(0, Math.min(visible.length - 1, position));
+    const height = listHeight();
+    if (cursor < top) top = cursor;
+    if (cursor >= top + height) top = cursor - height + 1;
+    top = Math.max(0, Math.min(top, Math.max(0, visible.length - height)));
+  }
+
+  // Find the next row from a position (inclusive) matching a predicate,
+  // wrapping around the end
+  function find(from: number, step: 1 | -1, match: (index: number) => boolean): number | undefined {
+    const count = visible.length;
+    for (let n = 0; n < count; n++) {
+      const position = (((from + step * n) % count) + count) % count;
+      if (match(visible[position]!)) {
+        if (step > 0 ? position < from : position > from) message = "search wrapped";
+        return position;
+      }
+    }
+    return undefined;
+  }
+
+  function findText(from: number, step: 1 | -1): void {
+    if (!search) return;
+    const query = search.toLowerCase();
+    const found = find(from, step, (i) => plainLine(i).includes(query));
+    if (found === undefined) message = `not found: ${search}`;
+    else moveTo(found);
+  }
+
+  function findError(step: 1 | -1): void {
+    const found = find(cursor + step, step, (i) => isErrorEvent(events[i]!));
+    if (found === undefined) message = "no errors";
+    else moveTo(found);
+  }
+
+  function render(): void {
+    const width = columns();
+    const height = listHeight();
+    const screen: string[] = [];
+
+    const position = visible.length > 0 ? `${cursor + 1}/${visible.length}` : "0/0";
+    const filtered = visible.length < events.length ? ` of ${events.length}` : "";
+    const title = ` mactrace view  ${options.title ?? ""}  ${position}${filtered} events` +
+      (filterText ? `  filter: ${filterText}` : "");
+    screen.push(`\x1b[7m${truncate(title.padEnd(width), width)}\x1b[0m`);
+
+    for (let row = 0; row < height; row++) {
+      const index = visible[top + row];
+      if (index === undefined) {
+        screen.push(row === 0 ? "\x1b[2m(no events match the filter)\x1b[0m" : "\x1b[2m~\x1b[0m");
+        continue;
+      }
+      const event = events[index]!;
+      if (top + row === cursor) {
+        // Colors would end the highlight, so the selected row is plain
+        const line = formatEvent(event, { color: false, widths });
+        screen.push(`\x1b[7m${truncate(line.padEnd(width), width)}\x1b[0m`);
+      } else {
+        screen.push(truncate(formatEvent(event, { color: true, widths }), width));
+      }
+    }
+
+    if (showDetail) {
+      const lines = details();
+      screen.push(`\x1b[2m${"─".repeat(width)}\x1b[0m`);
+      for (let row = 0; row < detailHeight() - 1; row++) {
+        screen.push(truncate(lines[row] ?? "", width));
+      }
+    }
+
+    let status: string;
+    if (mode === "search") status = `/${input}`;
+    else if (mode === "filter") status = `filter: ${input}`;
+    else status = message || `\x1b[2m${HELP}\x1b[0m`;
+    screen.push(truncate(status, width));
+
+    // Position each line explicitly: raw mode turns off newline translation
+    const out = screen.map((line, i) => `\x1b[${i + 1};1H${line}\x1b[K`).join("");
+    const prompt = mode !== "list";
+    stdout.write(out + (prompt ? `\x1b[${screen.length};${[...status].length + 1}H\x1b[?25h` : "\x1b[?25l"));
+  }
+
+  function onPromptKey(key: string): void {
+    if (key === "escape" || key === "ctrl-c") {
+      if (mode === "search") moveTo(searchOrigin);
+      else applyFilter(filterOrigin);
+      mode = "list";
+      return;
+    }
+    if (key === "enter") {
+      if (mode === "filter") {
+        try {
+          applyFilter(input);
+        } catch (error) {
+          message = (error as Error).message;
+        }
+        moveTo(cursor);
+      }
+      mode = "list";
+      return;
+    }
+    if (key === "backspace") {
+      input = input.slice(0, -1);
+    } else if ([...key].length === 1 && key >= " ") {
+      input += key;
+    } else {
+      return;
+    }
+
+    if (mode === "search") {
+      // Incremental: the first match from where the search started
+      search = input;
+      if (search) findText(searchOrigin, 1);
+      else moveTo(searchOrigin);
+    } else {
+      // Live: keep the last filter that parsed while the new one is typed
+      const previous = filterText;
+      try {
+        applyFilter(input);
+        moveTo(cursor);
+        message = "";
+      } catch (error) {
+        message = (error as Error).message;
+        filterText = previous;
+      }
+    }
+  }
+
+  function onListKey(key: string): boolean {
+    const page = listHeight();
+    message = "";
+    switch (key) {
+      case "q": case "ctrl-c": return false;
+      case "j": case "down": moveTo(cursor + 1); break;
+      case "k": case "up": moveTo(cursor - 1); break;
+      case " ": case "pagedown": moveTo(cursor + page); break;
+      case "b": case "pageup": moveTo(cursor - page); break;
+      case "g": case "home": moveTo(0); break;
+      case "G": case "end": moveTo(visible.length - 1); break;
+      case "n": findText(cursor + 1, 1); break;
+      case "N": findText(cursor - 1, -1); break;
+      case "e": findError(1); break;
+      case "E": findError(-1); break;
+      case "enter": case "d":
+        showDetail = !showDetail;
+        moveTo(cursor);
+        break;
+      case "/":
+        mode = "search";
+        input = "";
+        searchOrigin = cursor;
+        break;
+      case "f":
+        mode = "filter";
+        input = filterText;
+        filterOrigin = filterText;
+        break;
+    }
+    return true;
+  }
+
+  applyFilter(filterText);
+  moveTo(0);
+
+  return new Promise((resolve) => {
+    function quit(): void {
+      stdin.off("data", onData);
+      stdout.off("resize", onResize);
+      stdin.setRawMode(false);
+      stdin.pause();
+      // Show the cursor and leave the alternate screen
+      stdout.write("\x1b[?25h\x1b[?1049l");
+      resolve();
+    }
+
+    function onData(data: Buffer): void {
+      for (const key of splitKeys(data.toString("utf8"))) {
+        if (mode !== "list") {
+          onPromptKey(key);
+        } else if (!onListKey(key)) {
+          quit();
+          return;
+        }
+      }
+      render();
+    }
+
+    function onResize(): void {
+      moveTo(cursor);
+      render();
+    }
+
+    // Switch to the alternate screen so the shell's scrollback is left alone
+    stdout.write("\x1b[?1049h\x1b[?25l\x1b[2J");
+    stdin.setRawMode(true);
+    stdin.resume();
+    stdin.on("data", onData);
+    stdout.on("resize", onResize);
+    render();
+  });
+}
@@ -0,0 +1,126 @@
+// Minimal incremental XML tokenizer for xctrace exports. It handles the
+// subset xctrace emits (elements, attributes, text, comments, CDATA and the
+// XML declaration) without ever holding more than one unfinished tag in memory.
+
+export type XmlToken =
+  | { type: "open"; name: string; attrs: Record<string, string>; selfClosing: boolean }
+  | { type: "close"; name: string }
+  | { type: "text"; text: string };
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+export function decodeEntities(s: string): string {
+  if (!s.includes("&")) return s;
+  return s.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code = entity[1] === "x" || entity[1] === "X"
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return isNaN(code) ? match : String.fromCodePoint(code);
+    }
+    return ENTITIES[entity] ?? match;
+  });
+}
+
+// Decode a byte stream into text chunks
+export async function* decodeStream(stream: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  for await (const chunk of stream) {
+    yield decoder.decode(chunk, { stream: true });
+  }
+  const rest = decoder.decode();
+  if (rest) yield rest;
+}
+
+// Find the '>' closing a tag that starts at `from`, skipping quoted attribute values
+function findTagEnd(buf: string, from: number): number {
+  let quote: string | undefined;
+  for (let i = from; i < buf.length; i++) {
+    const ch = buf[i];
+    if (quote) {
+      if (ch === quote) quote = undefined;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === ">") {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function parseTag(body: string): XmlToken {
+  if (body.startsWith("/")) {
+    return { type: "close", name: body.slice(1).trim() };
+  }
+
+  const selfClosing = body.endsWith("/");
+  const content = selfClosing ? body.slice(0, -1) : body;
+  const nameMatch = content.match(/^[^\s/>]+/);
+  const name = nameMatch?.[0] ?? "";
+
+  const attrs: Record<string, string> = {};
+  const attrRe = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let m: RegExpExecArray | null;
+  while ((m = attrRe.exec(content.slice(name.length))) !== null) {
+    attrs[m[1]!] = decodeEntities(m[2] ?? m[3] ?? "");
+  }
+
+  return { type: "open", name, attrs, selfClosing };
+}
+
+export async function* tokenizeXml(chunks: AsyncIterable<string>): AsyncGenerator<XmlToken> {
+  let buf = "";
+
+  for await (const chunk of chunks) {
+    buf += chunk;
+    let pos = 0;
+
+    while (pos < buf.length) {
+      const lt = buf.indexOf("<", pos);
+      // Text may continue in the next chunk, so wait for the next tag
+      if (lt === -1) break;
+
+      if (lt > pos) {
+        yield { type: "text", text: decodeEntities(buf.slice(pos, lt)) };
+        pos = lt;
+      }
+
+      let end: number;
+      if (buf.startsWith("<!--", lt)) {
+        end = buf.indexOf("-->", lt + 4);
+        if (end === -1) break;
+        pos = end + 3;
+      } else if (buf.startsWith("<![CDATA[", lt)) {
+        end = buf.indexOf("]]>", lt + 9);
+        if (end === -1) break;
+        yield { type: "text", text: buf.slice(lt + 9, end) };
+        pos = end + 3;
+      } else if (buf.startsWith("<?", lt)) {
+        end = buf.indexOf("?>", lt + 2);
+        if (end === -1) break;
+        pos = end + 2;
+      } else if (buf.startsWith("<!", lt)) {
+        end = buf.indexOf(">", lt + 2);
+        if (end === -1) break;
+        pos = end + 1;
+      } else {
+        end = findTagEnd(buf, lt + 1);
+        if (end === -1) break;
+        yield parseTag(buf.slice(lt + 1, end).trim());
+        pos = end + 1;
+      }
+    }
+
+    buf = buf.slice(pos);
+  }
+
+  if (buf.trim()) {
+    throw new Error("Unexpected end of XML input");
+  }
+}